@@ -648,7 +648,7 @@ function App() {
               padding: '4px',
               gap: '4px',
             }}>
-              {(['day', 'week', 'month'] as ViewMode[]).map((mode) => (
+              {(['day', 'week', 'month', 'quarter', 'year'] as ViewMode[]).map((mode) => (
                 <button
                   key={mode}
                   onClick={() => setViewMode(mode)}
@@ -4,23 +4,54 @@
  * @saharos/react-gantt
  */
 
-import React, { useMemo, useState, useRef, useCallback } from 'react';
+import React, {
+  forwardRef,
+  useMemo,
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+} from 'react';
 import type {
   GanttProps,
+  GanttHandle,
+  ScrollAlign,
   GanttConfig,
   ComputedTask,
   DateRange,
-  GanttColumn,
+  GanttDependency,
+  GanttResource,
+  GanttMarker,
 } from '../types';
-import { calculateDateRange, formatDateCompact } from '../utils/date';
-import { computeTaskPositions, calculateChartWidth } from '../utils/position';
+import {
+  calculateDateRange,
+  addDays,
+  startOfDay,
+  endOfDay,
+  extendDateRange,
+  getPixelsPerDay,
+  getViewModeForScale,
+} from '../utils/date';
+import { computeTaskPositions, calculateChartWidth, dateToX, xToDate } from '../utils/position';
+import { computeCriticalPath } from '../utils/schedule';
+import { createDefaultColumns, createResourceColumn, createEarnedValueColumns } from '../utils/columns';
+import { computeEarnedValue } from '../utils/earnedValue';
+import { levelResources } from '../utils/leveling';
+import { getNonWorkingIntervals } from '../utils/calendar';
+import { getConstraintViolation } from '../utils/constraints';
+import { validateSchedule } from '../utils/validation';
 import { mergeTheme, themeToCssVars } from '../utils/theme';
-import { GanttGrid, GanttGridHeader } from './GanttGrid';
+import { GanttGrid, GanttGridHeader, TIME_RANGE_ROW_HEIGHT } from './GanttGrid';
 import { GanttTaskBars } from './GanttTaskBar';
 import { GanttDependencies } from './GanttDependencies';
+import { GanttMarkers } from './GanttMarkers';
+import { GanttMiniMap } from './GanttMiniMap';
 import { GanttTaskList } from './GanttTaskList';
 import { GanttTooltip } from './GanttTooltip';
 import { useDrag } from '../hooks/useDrag';
+import { useZoom, clampPixelsPerDay } from '../hooks/useZoom';
 
 // Default configuration
 const defaultConfig: Required<GanttConfig> = {
@@ -31,45 +62,53 @@ const defaultConfig: Required<GanttConfig> = {
   taskListWidth: 360,
   showBaseline: true,
   showDependencies: true,
+  rollupGroups: false,
+  autoCriticalPath: false,
+  showSlack: false,
+  timescale: undefined as any,
+  fiscalCalendar: undefined as any,
+  hideNonWorkingTime: false,
   showTodayMarker: true,
   showWeekends: true,
+  levelingPreview: false,
+  snapInterval: 60,
+  pixelsPerDay: undefined as any,
+  allowZoom: true,
+  infiniteScroll: false,
+  showMiniMap: false,
   allowDrag: true,
   allowResize: true,
   allowProgressChange: true,
+  autoSchedule: 'none',
+  constraintMode: 'respect',
+  statusDate: undefined as any,
+  showEarnedValue: false,
   locale: 'en-US',
   firstDayOfWeek: 1,
+  timeZone: undefined as any,
+  calendar: undefined as any,
   dateRange: undefined as any,
   datePadding: 7,
 };
 
-// Default columns for task list
-const defaultColumns: GanttColumn[] = [
-  {
-    id: 'name',
-    header: 'Task Name',
-    width: 200,
-    minWidth: 100,
-  },
-  {
-    id: 'start',
-    header: 'Start',
-    width: 80,
-    align: 'center',
-    accessor: (task) => formatDateCompact(task.start),
-  },
-  {
-    id: 'end',
-    header: 'End',
-    width: 80,
-    align: 'center',
-    accessor: (task) => formatDateCompact(task.end),
-  },
-];
-
-export function Gantt({
-  tasks,
-  dependencies = [],
-  columns = defaultColumns,
+// Container font, also written into exported SVG
+const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", sans-serif';
+
+// Layout effects warn during server rendering, where there is nothing to measure anyway
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
+
+// Stable empty defaults so memoized derivations don't rerun on every render
+const noDependencies: GanttDependency[] = [];
+const noResources: GanttResource[] = [];
+const noMarkers: GanttMarker[] = [];
+
+export const Gantt = forwardRef<GanttHandle, GanttProps>(function Gantt({
+  tasks: inputTasks,
+  dependencies = noDependencies,
+  resources = noResources,
+  markers = noMarkers,
+  timeRanges,
+  columns: userColumns,
   config: userConfig,
   theme: userTheme,
   className,
@@ -79,24 +118,75 @@ export function Gantt({
   renderTooltip,
   renderTaskBar: _renderTaskBar,
   onTaskDateChange,
+  onTasksDateChange,
   onTaskProgressChange: _onTaskProgressChange,
   onTaskClick,
   onTaskDoubleClick,
   onGroupToggle,
   onViewModeChange: _onViewModeChange,
-}: GanttProps) {
+  onZoomChange,
+  onVisibleRangeChange,
+  onValidationError,
+}, ref) {
   // Merge config with defaults
   const config = useMemo(
     () => ({ ...defaultConfig, ...userConfig }),
     [userConfig]
   );
 
+  // Header grows by a row when time ranges are named in it
+  const headerHeight =
+    config.headerHeight + (timeRanges?.some((range) => range.showInHeader) ? TIME_RANGE_ROW_HEIGHT : 0);
+
   // Merge theme with defaults
   const theme = useMemo(() => mergeTheme(userTheme), [userTheme]);
 
   // CSS custom properties
   const cssVars = useMemo(() => themeToCssVars(theme), [theme]);
 
+  // Resource leveling preview - leveled dates on the bars, current dates as the baseline
+  const tasks = useMemo(() => {
+    if (!config.levelingPreview) return inputTasks;
+
+    const { changes } = levelResources(inputTasks, dependencies, resources, {
+      calendar: config.calendar,
+      timeZone: config.timeZone,
+    });
+    return inputTasks.map((task) => ({
+      ...task,
+      ...changes.get(task.id),
+      baselineStart: task.start,
+      baselineEnd: task.end,
+    }));
+  }, [inputTasks, dependencies, resources, config.levelingPreview, config.calendar, config.timeZone]);
+
+  // Earned value as of the status date
+  const earnedValue = useMemo(
+    () =>
+      config.showEarnedValue
+        ? computeEarnedValue(tasks, config.statusDate ?? new Date(), {
+            calendar: config.calendar,
+            timeZone: config.timeZone,
+          })
+        : null,
+    [tasks, config.showEarnedValue, config.statusDate, config.calendar, config.timeZone]
+  );
+
+  // Task list columns - the default set gains resource and earned value columns when enabled
+  const columns = useMemo(() => {
+    if (userColumns) return userColumns;
+    return [
+      ...createDefaultColumns({ locale: config.locale, timeZone: config.timeZone }),
+      ...(resources.length > 0 ? [createResourceColumn(resources)] : []),
+      ...(earnedValue ? createEarnedValueColumns(earnedValue) : []),
+    ];
+  }, [userColumns, config.locale, config.timeZone, resources, earnedValue]);
+
+  // Default columns size the panel unless a width is configured
+  const taskListWidth =
+    userConfig?.taskListWidth ??
+    (userColumns ? config.taskListWidth : columns.reduce((sum, col) => sum + col.width, 0));
+
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
   const taskListContentRef = useRef<HTMLDivElement>(null);
@@ -110,28 +200,62 @@ export function Gantt({
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
 
-  // Calculate date range
-  const dateRange: DateRange = useMemo(
-    () => calculateDateRange(tasks, config.datePadding, config.dateRange),
-    [tasks, config.datePadding, config.dateRange]
-  );
+  // Continuous zoom scale - starts from config and follows Ctrl+wheel/pinch;
+  // switching view modes drops back to the mode's own scale
+  const [zoomScale, setZoomScale] = useState<number | undefined>(config.pixelsPerDay);
+  useEffect(() => {
+    setZoomScale(config.pixelsPerDay);
+  }, [config.pixelsPerDay, config.viewMode]);
+
+  // Grid and header tiers follow the zoom scale when zoomed
+  const timelineMode = zoomScale !== undefined ? getViewModeForScale(zoomScale) : config.viewMode;
+
+  // Earliest start and latest end reached by infinite scrolling or `scrollToDate`
+  const [rangeExtension, setRangeExtension] = useState<{ start?: Date; end?: Date }>({});
+
+  // Calculate date range (with non-working time skipped on a compressed timeline)
+  const dateRange: DateRange = useMemo(() => {
+    let range = calculateDateRange(tasks, config.datePadding, config.dateRange, config.timeZone);
+    range = extendDateRange(range, rangeExtension.start, rangeExtension.end, config.timeZone);
+    if (!config.hideNonWorkingTime) return range;
+    return {
+      ...range,
+      hiddenIntervals: getNonWorkingIntervals(
+        range.start,
+        range.end,
+        config.calendar,
+        timelineMode === 'hour' ? 'hour' : 'day',
+        config.timeZone
+      ),
+    };
+  }, [
+    tasks,
+    config.datePadding,
+    config.dateRange,
+    config.timeZone,
+    rangeExtension,
+    config.hideNonWorkingTime,
+    config.calendar,
+    timelineMode,
+  ]);
 
   // Calculate chart dimensions
   const chartWidth = useMemo(
-    () => calculateChartWidth(dateRange, config.viewMode),
-    [dateRange, config.viewMode]
-  );
-
-  // Compute task positions
-  const computedTasks = useMemo(
-    () => computeTaskPositions(tasks, dateRange, chartWidth, config, collapsedIds),
-    [tasks, dateRange, chartWidth, config, collapsedIds]
+    () => calculateChartWidth(dateRange, timelineMode, zoomScale),
+    [dateRange, timelineMode, zoomScale]
   );
 
-  // Visible tasks only
-  const visibleTasks = useMemo(
-    () => computedTasks.filter((t) => t.isVisible),
-    [computedTasks]
+  // Critical path and float (only when derived automatically or slack is shown)
+  const criticalPath = useMemo(
+    () =>
+      config.autoCriticalPath || config.showSlack
+        ? computeCriticalPath(tasks, dependencies, {
+            calendar: config.calendar,
+            resources,
+            timeZone: config.timeZone,
+          })
+        : null,
+    [config.autoCriticalPath, config.showSlack, tasks, dependencies, config.calendar, resources, config.timeZone]
   );
 
   // Convert dependencies to internal format with typing
@@ -144,33 +268,122 @@ export function Gantt({
     [dependencies]
   );
 
+  // Dependency validation
+  const diagnostics = useMemo(
+    () => validateSchedule(tasks, dependencies),
+    [tasks, dependencies]
+  );
+
+  const invalidDependencyIds = useMemo(
+    () =>
+      new Set(
+        diagnostics
+          .filter((d) => d.severity === 'error')
+          .flatMap((d) => d.dependencyIds)
+      ),
+    [diagnostics]
+  );
+
+  // Latest callback, so reports follow the diagnostics rather than its identity
+  const onValidationErrorRef = useRef(onValidationError);
+  onValidationErrorRef.current = onValidationError;
+
+  useEffect(() => {
+    if (diagnostics.length > 0) {
+      onValidationErrorRef.current?.(diagnostics);
+    }
+  }, [diagnostics]);
+
   // Drag handling
   const {
     isDragging,
     draggedTask,
-    previewStart: _previewStart,
-    previewEnd: _previewEnd,
+    previewStart,
+    previewEnd,
+    cascadePreview,
     handleMouseDown: handleDragMouseDown,
     getDragPreviewX,
     getDragPreviewWidth,
   } = useDrag({
     dateRange,
     chartWidth,
-    viewMode: config.viewMode,
-    allowDrag: config.allowDrag,
-    allowResize: config.allowResize,
-    onDragEnd: (task, newStart, newEnd, cancelled, isResize) => {
-      if (!cancelled && onTaskDateChange) {
-        onTaskDateChange({
-          task,
-          newStart,
-          newEnd,
+    viewMode: timelineMode,
+    snapInterval: config.snapInterval,
+    firstDayOfWeek: config.firstDayOfWeek,
+    timeZone: config.timeZone,
+    allowDrag: config.allowDrag && !config.levelingPreview,
+    allowResize: config.allowResize && !config.levelingPreview,
+    tasks,
+    dependencies: internalDependencies,
+    autoSchedule: config.autoSchedule,
+    calendar: config.calendar,
+    resources,
+    constraintMode: config.constraintMode,
+    onDragEnd: (task, newStart, newEnd, cancelled, isResize, changes) => {
+      if (cancelled) return;
+
+      onTaskDateChange?.({
+        task,
+        newStart,
+        newEnd,
+        isResize,
+        constraintViolation:
+          getConstraintViolation(task, newStart, newEnd, config.timeZone, task.schedule?.lateStart) ?? undefined,
+      });
+
+      if (onTasksDateChange) {
+        const taskMap = new Map(tasks.map((t) => [t.id, t]));
+        onTasksDateChange({
+          changes: [
+            { task, newStart, newEnd },
+            ...Array.from(changes)
+              .filter(([id]) => id !== task.id && taskMap.has(id))
+              .map(([id, dates]) => ({
+                task: taskMap.get(id)!,
+                newStart: dates.start,
+                newEnd: dates.end,
+              })),
+          ],
           isResize,
         });
       }
     },
   });
 
+  // Compute task positions (group roll-up follows the drag preview)
+  const rollupPreview = isDragging && config.rollupGroups ? cascadePreview : undefined;
+  const computedTasks = useMemo(
+    () =>
+      computeTaskPositions(
+        tasks,
+        dateRange,
+        chartWidth,
+        config,
+        collapsedIds,
+        criticalPath,
+        rollupPreview
+      ),
+    [tasks, dateRange, chartWidth, config, collapsedIds, criticalPath, rollupPreview]
+  );
+
+  // Visible tasks only
+  const visibleTasks = useMemo(
+    () => computedTasks.filter((t) => t.isVisible),
+    [computedTasks]
+  );
+
+  // Whether the drag preview breaks the dragged task's constraint
+  const previewViolation =
+    draggedTask && previewStart && previewEnd
+      ? getConstraintViolation(
+          draggedTask,
+          previewStart,
+          previewEnd,
+          config.timeZone,
+          draggedTask.schedule?.lateStart
+        )
+      : null;
+
   // Hovered task for tooltip
   const hoveredTask = useMemo(
     () => visibleTasks.find((t) => t.id === hoveredTaskId) || null,
@@ -245,16 +458,228 @@ export function Gantt({
     }
   }, []);
 
-  // Horizontal scroll handler - syncs header, chart body, and scrollbar
-  const handleHorizontalScroll = useCallback((event: React.UIEvent) => {
-    const target = event.target as HTMLElement;
-    if (chartScrollRef.current) {
-      chartScrollRef.current.scrollLeft = target.scrollLeft;
+  // Date kept at a viewport offset once a new range or width renders
+  // (the date under the cursor when zooming, the first visible date when the range grows)
+  const scrollAnchorRef = useRef<{ date: Date; offsetX: number } | null>(null);
+
+  // Zoom to a scale, keeping the date at a viewport offset in place
+  const applyZoom = (pixelsPerDay: number, offsetX: number) => {
+    const scroller = horizontalScrollRef.current;
+    if (scroller) {
+      scrollAnchorRef.current = {
+        date: xToDate(scroller.scrollLeft + offsetX, dateRange, chartWidth),
+        offsetX,
+      };
+    }
+    setZoomScale(pixelsPerDay);
+    onZoomChange?.(pixelsPerDay);
+  };
+
+  useZoom({
+    targetRef: chartScrollRef,
+    pixelsPerDay: zoomScale ?? getPixelsPerDay(config.viewMode),
+    enabled: config.allowZoom && (tasks.length > 0 || !!isLoading),
+    onZoom: (pixelsPerDay, anchorClientX) => {
+      const body = chartScrollRef.current;
+      applyZoom(pixelsPerDay, body ? anchorClientX - body.getBoundingClientRect().left : 0);
+    },
+  });
+
+  // Infinite scrolling - grow the range by a screen's worth of days at the start and/or end
+  const isExtendingRef = useRef(false);
+
+  const extendRange = useCallback(
+    (atStart: boolean, atEnd: boolean) => {
+      const scroller = horizontalScrollRef.current;
+      if (!scroller || isExtendingRef.current || (!atStart && !atEnd)) return;
+
+      const days = Math.max(7, Math.ceil((scroller.clientWidth / chartWidth) * dateRange.totalDays));
+      isExtendingRef.current = true;
+      setRangeExtension((prev) => ({
+        start: atStart ? addDays(dateRange.start, -days, config.timeZone) : prev.start,
+        end: atEnd ? addDays(dateRange.end, days, config.timeZone) : prev.end,
+      }));
+    },
+    [dateRange, chartWidth, config.timeZone]
+  );
+
+  // Range and width of the last render, to find the date under the viewport
+  // when the range start moves (infinite scrolling, earlier tasks loaded)
+  const renderedRangeRef = useRef({ dateRange, chartWidth });
+
+  useIsomorphicLayoutEffect(() => {
+    isExtendingRef.current = false;
+    const previous = renderedRangeRef.current;
+    renderedRangeRef.current = { dateRange, chartWidth };
+
+    let anchor = scrollAnchorRef.current;
+    scrollAnchorRef.current = null;
+    const scroller = horizontalScrollRef.current;
+    if (!scroller) return;
+
+    if (!anchor && previous.dateRange.start.getTime() !== dateRange.start.getTime()) {
+      anchor = { date: xToDate(scroller.scrollLeft, previous.dateRange, previous.chartWidth), offsetX: 0 };
     }
-    if (chartHeaderRef.current) {
-      chartHeaderRef.current.scrollLeft = target.scrollLeft;
+    if (!anchor) return;
+    scroller.scrollLeft = dateToX(anchor.date, dateRange, chartWidth) - anchor.offsetX;
+  }, [dateRange, chartWidth]);
+
+  // When switched on, start with room to scroll back from the first task
+  // (and forward when the chart fits the screen)
+  useIsomorphicLayoutEffect(() => {
+    const scroller = horizontalScrollRef.current;
+    if (!config.infiniteScroll || !scroller) return;
+    extendRange(true, chartWidth < scroller.clientWidth * 2);
+  }, [config.infiniteScroll]);
+
+  // Report the dates in the viewport when they change
+  const visibleRangeRef = useRef<{ start: Date; end: Date } | null>(null);
+
+  const getVisibleRange = useCallback(() => {
+    const scroller = horizontalScrollRef.current;
+    if (!scroller) return null;
+
+    return {
+      start: xToDate(scroller.scrollLeft, dateRange, chartWidth),
+      end: xToDate(scroller.scrollLeft + Math.min(scroller.clientWidth, chartWidth), dateRange, chartWidth),
+    };
+  }, [dateRange, chartWidth]);
+
+  const reportVisibleRange = useCallback(() => {
+    const range = getVisibleRange();
+    if (!range || !onVisibleRangeChange) return;
+
+    const { start, end } = range;
+    const previous = visibleRangeRef.current;
+    if (previous && previous.start.getTime() === start.getTime() && previous.end.getTime() === end.getTime()) {
+      return;
     }
-  }, []);
+
+    visibleRangeRef.current = { start, end };
+    onVisibleRangeChange({ start, end });
+  }, [getVisibleRange, onVisibleRangeChange]);
+
+  useEffect(reportVisibleRange, [reportVisibleRange]);
+
+  // Horizontal scroll handler - syncs header, chart body, and scrollbar
+  const handleHorizontalScroll = useCallback(
+    (event: React.UIEvent) => {
+      const target = event.target as HTMLElement;
+      if (chartScrollRef.current) {
+        chartScrollRef.current.scrollLeft = target.scrollLeft;
+      }
+      if (chartHeaderRef.current) {
+        chartHeaderRef.current.scrollLeft = target.scrollLeft;
+      }
+
+      // Grow the range when within half a screen of either edge
+      if (config.infiniteScroll) {
+        const threshold = target.clientWidth / 2;
+        extendRange(
+          target.scrollLeft < threshold,
+          target.scrollLeft + target.clientWidth > target.scrollWidth - threshold
+        );
+      }
+
+      reportVisibleRange();
+    },
+    [config.infiniteScroll, extendRange, reportVisibleRange]
+  );
+
+  // Imperative API - scrolling goes through the scroll containers so their
+  // scroll handlers keep the task list, header and body in sync
+  const pendingScrollRef = useRef<{ taskId: string; align: ScrollAlign } | null>(null);
+
+  const scrollTaskIntoView = useCallback(
+    (taskId: string, align: ScrollAlign) => {
+      const task = visibleTasks.find((t) => t.id === taskId);
+      const body = chartScrollRef.current;
+      const scroller = horizontalScrollRef.current;
+      if (!task || !body || !scroller) return;
+
+      const center = align === 'center';
+      body.scrollTop = task.rowIndex * config.rowHeight - (center ? (body.clientHeight - config.rowHeight) / 2 : 0);
+      scroller.scrollLeft = task.x - (center ? (scroller.clientWidth - task.width) / 2 : 0);
+    },
+    [visibleTasks, config.rowHeight]
+  );
+
+  // Scroll once the groups above a requested task have expanded
+  useIsomorphicLayoutEffect(() => {
+    const pending = pendingScrollRef.current;
+    if (!pending) return;
+    pendingScrollRef.current = null;
+    scrollTaskIntoView(pending.taskId, pending.align);
+  }, [visibleTasks]);
+
+  useImperativeHandle(ref, () => ({
+    scrollToTask: (taskId, { align = 'center' } = {}) => {
+      const taskMap = new Map(tasks.map((t) => [t.id, t]));
+      if (!taskMap.has(taskId)) return;
+
+      const ancestors: string[] = [];
+      for (let id = taskMap.get(taskId)!.parentId; id && taskMap.has(id) && !ancestors.includes(id); ) {
+        ancestors.push(id);
+        id = taskMap.get(id)!.parentId;
+      }
+
+      if (ancestors.some((id) => collapsedIds.has(id))) {
+        pendingScrollRef.current = { taskId, align };
+        setCollapsedIds((prev) => {
+          const next = new Set(prev);
+          ancestors.forEach((id) => next.delete(id));
+          return next;
+        });
+      } else {
+        scrollTaskIntoView(taskId, align);
+      }
+    },
+    scrollToDate: (date, { align = 'start' } = {}) => {
+      const scroller = horizontalScrollRef.current;
+      if (!scroller) return;
+      const offsetX = align === 'center' ? scroller.clientWidth / 2 : 0;
+
+      // Outside the range - grow it by a screen beyond the date (to whole days) and scroll once it renders
+      if (date < dateRange.start || date > dateRange.end) {
+        const days = Math.max(7, Math.ceil((scroller.clientWidth / chartWidth) * dateRange.totalDays));
+        scrollAnchorRef.current = { date, offsetX };
+        setRangeExtension((prev) => ({
+          start:
+            date < dateRange.start ? startOfDay(addDays(date, -days, config.timeZone), config.timeZone) : prev.start,
+          end: date > dateRange.end ? endOfDay(addDays(date, days, config.timeZone), config.timeZone) : prev.end,
+        }));
+        return;
+      }
+
+      scroller.scrollLeft = dateToX(date, dateRange, chartWidth) - offsetX;
+    },
+    zoomTo: (pixelsPerDay) => {
+      applyZoom(clampPixelsPerDay(pixelsPerDay), (horizontalScrollRef.current?.clientWidth ?? 0) / 2);
+    },
+    expandAll: () => setCollapsedIds(new Set()),
+    collapseAll: () =>
+      setCollapsedIds(new Set(tasks.flatMap((t) => (t.parentId ? [t.parentId] : [])))),
+    select: (taskId) => setSelectedTaskId(taskId),
+    getVisibleRange,
+    exportSvg: () => {
+      const header = chartHeaderRef.current?.querySelector('svg');
+      const body = chartScrollRef.current?.querySelector('svg');
+      if (!header || !body) return '';
+
+      const bodyHeight = Number(body.getAttribute('height')) || 0;
+      const bodyClone = body.cloneNode(true) as SVGSVGElement;
+      bodyClone.setAttribute('y', String(headerHeight));
+
+      const serializer = new XMLSerializer();
+      return (
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${chartWidth}" height="${headerHeight + bodyHeight}" ` +
+        `font-family='${FONT_FAMILY}'>` +
+        serializer.serializeToString(header.cloneNode(true)) +
+        serializer.serializeToString(bodyClone) +
+        '</svg>'
+      );
+    },
+  }));
 
   // Empty state
   if (tasks.length === 0 && !isLoading) {
@@ -330,7 +755,8 @@ export function Gantt({
   }
 
   // Add extra padding for baseline bar of last row when baselines are shown
-  const baselinePadding = config.showBaseline ? Math.ceil(config.rowHeight * 0.3) : 0;
+  const showBaseline = config.showBaseline || config.levelingPreview;
+  const baselinePadding = showBaseline ? Math.ceil(config.rowHeight * 0.3) : 0;
   const chartHeight = visibleTasks.length * config.rowHeight + baselinePadding;
 
   return (
@@ -344,8 +770,7 @@ export function Gantt({
         flexDirection: 'column',
         backgroundColor: theme.background,
         color: theme.text,
-        fontFamily:
-          '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", sans-serif',
+        fontFamily: FONT_FAMILY,
         overflow: 'hidden',
         position: 'relative',
       }}
@@ -366,7 +791,7 @@ export function Gantt({
             style={{
               display: 'flex',
               flexDirection: 'column',
-              width: config.taskListWidth,
+              width: taskListWidth,
               flexShrink: 0,
               borderRight: `1px solid ${theme.border}`,
               minHeight: 0,
@@ -375,7 +800,7 @@ export function Gantt({
             {/* Task list header */}
             <div
               style={{
-                height: config.headerHeight,
+                height: headerHeight,
                 display: 'flex',
                 alignItems: 'flex-end',
                 backgroundColor: theme.background,
@@ -425,9 +850,10 @@ export function Gantt({
                   columns={columns}
                   rowHeight={config.rowHeight}
                   headerHeight={0}
-                  width={config.taskListWidth}
+                  width={taskListWidth}
                   theme={theme}
                   locale={config.locale}
+                  timeZone={config.timeZone}
                   selectedTaskId={selectedTaskId}
                   hoveredTaskId={hoveredTaskId}
                   collapsedIds={collapsedIds}
@@ -456,7 +882,7 @@ export function Gantt({
           <div style={{
             overflow: 'hidden',
             flexShrink: 0,
-            height: config.headerHeight,
+            height: headerHeight,
             borderBottom: `1px solid ${theme.border}`,
           }}>
             <div
@@ -469,11 +895,18 @@ export function Gantt({
             >
               <GanttGridHeader
                 dateRange={dateRange}
-                viewMode={config.viewMode}
-                headerHeight={config.headerHeight}
+                viewMode={timelineMode}
+                pixelsPerDay={zoomScale}
+                timescale={config.timescale}
+                fiscalCalendar={config.fiscalCalendar}
+                timeZone={config.timeZone}
+                headerHeight={headerHeight}
                 theme={theme}
                 locale={config.locale}
                 firstDayOfWeek={config.firstDayOfWeek}
+                calendar={config.calendar}
+                markers={markers}
+                timeRanges={timeRanges}
               />
             </div>
           </div>
@@ -498,18 +931,32 @@ export function Gantt({
               {/* Grid background */}
               <GanttGrid
                 dateRange={dateRange}
-                viewMode={config.viewMode}
+                viewMode={timelineMode}
+                pixelsPerDay={zoomScale}
                 rowCount={visibleTasks.length}
                 rowHeight={config.rowHeight}
                 headerHeight={0}
                 theme={theme}
                 locale={config.locale}
                 firstDayOfWeek={config.firstDayOfWeek}
+                calendar={config.calendar}
+                fiscalCalendar={config.fiscalCalendar}
+                timeZone={config.timeZone}
                 showWeekends={config.showWeekends}
                 showTodayMarker={config.showTodayMarker}
+                timeRanges={timeRanges}
                 extraHeight={baselinePadding}
               />
 
+              {/* Custom time markers */}
+              <GanttMarkers
+                markers={markers}
+                dateRange={dateRange}
+                chartWidth={chartWidth}
+                chartHeight={chartHeight}
+                theme={theme}
+              />
+
               {/* Dependencies */}
               {config.showDependencies && (
                 <GanttDependencies
@@ -517,6 +964,10 @@ export function Gantt({
                   dependencies={internalDependencies}
                   rowHeight={config.rowHeight}
                   theme={theme}
+                  criticalDependencyIds={
+                    config.autoCriticalPath ? criticalPath?.criticalDependencyIds : undefined
+                  }
+                  invalidDependencyIds={invalidDependencyIds}
                 />
               )}
 
@@ -525,7 +976,7 @@ export function Gantt({
                 tasks={visibleTasks}
                 rowHeight={config.rowHeight}
                 theme={theme}
-                showBaseline={config.showBaseline}
+                showBaseline={showBaseline}
                 selectedTaskId={selectedTaskId}
                 hoveredTaskId={hoveredTaskId}
                 onTaskMouseEnter={handleTaskMouseEnter}
@@ -535,6 +986,31 @@ export function Gantt({
                 onTaskDragStart={handleTaskDragStart}
               />
 
+              {/* Cascaded successor previews (auto-scheduling) */}
+              {isDragging &&
+                visibleTasks
+                  .filter((t) => t.id !== draggedTask?.id && cascadePreview.has(t.id))
+                  .map((t) => {
+                    const dates = cascadePreview.get(t.id)!;
+                    const x = dateToX(dates.start, dateRange, chartWidth);
+                    return (
+                      <rect
+                        key={`cascade-${t.id}`}
+                        className="gantt-drag-cascade"
+                        x={x}
+                        y={t.rowIndex * config.rowHeight + 8}
+                        width={Math.max(dateToX(dates.end, dateRange, chartWidth) - x, 4)}
+                        height={config.rowHeight * 0.45}
+                        rx={3}
+                        fill={theme.primary}
+                        opacity={0.2}
+                        stroke={theme.primary}
+                        strokeWidth={1}
+                        strokeDasharray="4 2"
+                      />
+                    );
+                  })}
+
               {/* Drag preview */}
               {isDragging && draggedTask && (
                 <rect
@@ -543,9 +1019,9 @@ export function Gantt({
                   width={getDragPreviewWidth() ?? 0}
                   height={config.rowHeight * 0.45}
                   rx={3}
-                  fill={theme.primary}
+                  fill={previewViolation ? theme.violation : theme.primary}
                   opacity={0.3}
-                  stroke={theme.primary}
+                  stroke={previewViolation ? theme.violation : theme.primary}
                   strokeWidth={2}
                   strokeDasharray="4 2"
                 />
@@ -558,6 +1034,7 @@ export function Gantt({
               mousePosition={mousePosition}
               containerRef={chartScrollRef as React.RefObject<HTMLElement>}
               theme={theme}
+              timeZone={config.timeZone}
               renderContent={renderTooltip}
             />
           </div>
@@ -579,8 +1056,20 @@ export function Gantt({
           </div>
         </div>
       </div>
+
+      {/* Overview mini-map */}
+      {config.showMiniMap && (
+        <GanttMiniMap
+          tasks={visibleTasks}
+          chartWidth={chartWidth}
+          rowHeight={config.rowHeight}
+          theme={theme}
+          horizontalScrollRef={horizontalScrollRef}
+          verticalScrollRef={chartScrollRef}
+        />
+      )}
     </div>
   );
-}
+});
 
 export default Gantt;
@@ -5,12 +5,20 @@
 import { useMemo } from 'react';
 import type { ComputedTask, GanttDependency, GanttTheme, DependencyType } from '../types';
 import { getBarDimensions } from '../utils/position';
+import { getDependencyId } from '../utils/schedule';
 
 interface GanttDependenciesProps {
   tasks: ComputedTask[];
   dependencies: GanttDependency[];
   rowHeight: number;
   theme: Required<GanttTheme>;
+  /**
+   * Dependencies on the critical path. When omitted, an arrow is
+   * critical if both of its tasks are.
+   */
+  criticalDependencyIds?: Set<string>;
+  /** Dependencies reported by `validateSchedule` - drawn in an error style */
+  invalidDependencyIds?: Set<string>;
 }
 
 export function GanttDependencies({
@@ -18,6 +26,8 @@ export function GanttDependencies({
   dependencies,
   rowHeight,
   theme,
+  criticalDependencyIds,
+  invalidDependencyIds,
 }: GanttDependenciesProps) {
   // Create task lookup map
   const taskMap = useMemo(() => {
@@ -43,14 +53,27 @@ export function GanttDependencies({
           rowHeight
         );
 
+        const id = getDependencyId(dep);
+        const isCritical = criticalDependencyIds
+          ? criticalDependencyIds.has(id)
+          : Boolean(fromTask.isCritical && toTask.isCritical);
+
         return {
-          id: `${dep.fromId}-${dep.toId}`,
+          id,
           path,
           type: dep.type,
+          isCritical,
+          isInvalid: invalidDependencyIds?.has(id) ?? false,
         };
       })
-      .filter(Boolean) as Array<{ id: string; path: string; type: DependencyType }>;
-  }, [dependencies, taskMap, rowHeight]);
+      .filter(Boolean) as Array<{
+        id: string;
+        path: string;
+        type: DependencyType;
+        isCritical: boolean;
+        isInvalid: boolean;
+      }>;
+  }, [dependencies, taskMap, rowHeight, criticalDependencyIds, invalidDependencyIds]);
 
   return (
     <g className="gantt-dependencies">
@@ -70,19 +93,61 @@ export function GanttDependencies({
             fill={theme.dependency}
           />
         </marker>
+        <marker
+          id="gantt-arrow-critical"
+          markerWidth="8"
+          markerHeight="8"
+          refX="6"
+          refY="4"
+          orient="auto"
+          markerUnits="strokeWidth"
+        >
+          <path
+            d="M0,0 L0,8 L8,4 z"
+            fill={theme.critical}
+          />
+        </marker>
+        <marker
+          id="gantt-arrow-invalid"
+          markerWidth="8"
+          markerHeight="8"
+          refX="6"
+          refY="4"
+          orient="auto"
+          markerUnits="strokeWidth"
+        >
+          <path
+            d="M0,0 L0,8 L8,4 z"
+            fill={theme.violation}
+          />
+        </marker>
       </defs>
 
       {/* Render arrows */}
-      {arrows.map(({ id, path }) => (
-        <path
-          key={id}
-          d={path}
-          fill="none"
-          stroke={theme.dependency}
-          strokeWidth={1.5}
-          markerEnd="url(#gantt-arrow)"
-        />
-      ))}
+      {arrows.map(({ id, path, isCritical, isInvalid }) =>
+        isInvalid ? (
+          <path
+            key={id}
+            className="gantt-dependency-invalid"
+            d={path}
+            fill="none"
+            stroke={theme.violation}
+            strokeWidth={2}
+            strokeDasharray="5 3"
+            markerEnd="url(#gantt-arrow-invalid)"
+          />
+        ) : (
+          <path
+            key={id}
+            className={isCritical ? 'gantt-dependency-critical' : undefined}
+            d={path}
+            fill="none"
+            stroke={isCritical ? theme.critical : theme.dependency}
+            strokeWidth={isCritical ? 2 : 1.5}
+            markerEnd={isCritical ? 'url(#gantt-arrow-critical)' : 'url(#gantt-arrow)'}
+          />
+        )
+      )}
     </g>
   );
 }
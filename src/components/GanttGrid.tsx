@@ -2,17 +2,23 @@
  * GanttGrid - Renders the timeline grid background
  */
 
-import React, { useMemo } from 'react';
-import type { ViewMode, DateRange, GanttTheme } from '../types';
-import {
-  generateDateGrid,
-  formatDate,
-  isWeekend,
-  isToday,
-  getColumnWidth,
-  getMonthName,
-} from '../utils/date';
+import React, { useId, useMemo } from 'react';
+import type {
+  ViewMode,
+  DateRange,
+  GanttTheme,
+  GanttCalendar,
+  TimescaleTier,
+  TimescaleCell,
+  FiscalCalendar,
+  GanttMarker,
+  GanttTimeRange,
+  TimeRangePattern,
+} from '../types';
+import { generateDateGrid, isToday, addDays, addHours } from '../utils/date';
+import { isWorkingDay, isWorkingHour } from '../utils/calendar';
 import { dateToX, calculateChartWidth } from '../utils/position';
+import { generateTimescaleCells, formatTimescaleLabel, getDefaultTimescale } from '../utils/timescale';
 
 interface GanttGridProps {
   dateRange: DateRange;
@@ -23,9 +29,57 @@ interface GanttGridProps {
   theme: Required<GanttTheme>;
   locale?: string;
   firstDayOfWeek?: 0 | 1;
+  /** Calendar defining non-working days (default Monday-Friday) */
+  calendar?: GanttCalendar;
   showWeekends?: boolean;
   showTodayMarker?: boolean;
   extraHeight?: number;
+  /** Continuous zoom scale - overrides the view mode's column width */
+  pixelsPerDay?: number;
+  /** Fiscal year for fiscal grid lines and header tiers */
+  fiscalCalendar?: FiscalCalendar;
+  /** Time zone the grid and labels are computed in (default local time) */
+  timeZone?: string;
+  /** Shaded bands between dates (sprints, freezes, shutdowns) */
+  timeRanges?: GanttTimeRange[];
+}
+
+// Height of the header row naming time ranges
+export const TIME_RANGE_ROW_HEIGHT = 18;
+
+/**
+ * Pixel span of each time range clipped to the date range (empty spans dropped)
+ */
+function getTimeRangeSpans(timeRanges: GanttTimeRange[], dateRange: DateRange, chartWidth: number) {
+  return timeRanges
+    .map((range, index) => {
+      const x = dateToX(range.start < dateRange.start ? dateRange.start : range.start, dateRange, chartWidth);
+      const endX = dateToX(range.end > dateRange.end ? dateRange.end : range.end, dateRange, chartWidth);
+      return { range, index, x, width: endX - x };
+    })
+    .filter(({ width }) => width > 0);
+}
+
+/**
+ * Fill pattern tile for a time range band
+ */
+function TimeRangePatternDef({ id, pattern, color }: { id: string; pattern: TimeRangePattern; color: string }) {
+  return (
+    <pattern
+      id={id}
+      width={8}
+      height={8}
+      patternUnits="userSpaceOnUse"
+      patternTransform={pattern === 'hatched' ? 'rotate(45)' : undefined}
+    >
+      <rect width={8} height={8} fill={color} fillOpacity={0.06} />
+      {pattern === 'hatched' ? (
+        <line x1={0} y1={0} x2={0} y2={8} stroke={color} strokeOpacity={0.3} strokeWidth={3} />
+      ) : (
+        <circle cx={4} cy={4} r={1.2} fill={color} fillOpacity={0.4} />
+      )}
+    </pattern>
+  );
 }
 
 export function GanttGrid({
@@ -37,18 +91,25 @@ export function GanttGrid({
   theme,
   locale: _locale = 'en-US',
   firstDayOfWeek = 1,
+  calendar,
   showWeekends = true,
   showTodayMarker = true,
   extraHeight = 0,
+  pixelsPerDay,
+  fiscalCalendar,
+  timeZone,
+  timeRanges,
 }: GanttGridProps) {
-  const chartWidth = calculateChartWidth(dateRange, viewMode);
+  const chartWidth = calculateChartWidth(dateRange, viewMode, pixelsPerDay);
   const chartHeight = rowCount * rowHeight + extraHeight;
-  const columnWidth = getColumnWidth(viewMode);
+
+  // Pattern ids must be unique when several charts share a page
+  const patternPrefix = `gantt-range-${useId().replace(/:/g, '')}`;
 
   // Generate grid dates
   const gridDates = useMemo(
-    () => generateDateGrid(dateRange, viewMode, firstDayOfWeek),
-    [dateRange, viewMode, firstDayOfWeek]
+    () => generateDateGrid(dateRange, viewMode, firstDayOfWeek, fiscalCalendar, timeZone),
+    [dateRange, viewMode, firstDayOfWeek, fiscalCalendar, timeZone]
   );
 
   // Generate row backgrounds (zebra striping)
@@ -69,19 +130,25 @@ export function GanttGrid({
     return rows;
   }, [rowCount, rowHeight, chartWidth, theme]);
 
-  // Generate weekend backgrounds (for day view)
+  // Generate non-working time backgrounds (days in day view, hours in hour view)
   const weekendBackgrounds = useMemo(() => {
-    if (!showWeekends || viewMode !== 'day') return null;
+    if (!showWeekends || (viewMode !== 'day' && viewMode !== 'hour')) return null;
 
     const weekends: React.ReactNode[] = [];
     gridDates.forEach((date, index) => {
-      if (isWeekend(date)) {
+      const isWorking =
+        viewMode === 'hour' ? isWorkingHour(date, calendar, timeZone) : isWorkingDay(date, calendar, timeZone);
+      if (!isWorking) {
+        const x = dateToX(date, dateRange, chartWidth);
+        const next = viewMode === 'hour' ? addHours(date, 1) : addDays(date, 1, timeZone);
+        // Hidden on a compressed timeline
+        if (dateToX(next, dateRange, chartWidth) <= x) return;
         weekends.push(
           <rect
             key={`weekend-${index}`}
-            x={index * columnWidth}
+            x={x}
             y={0}
-            width={columnWidth}
+            width={dateToX(next, dateRange, chartWidth) - x}
             height={chartHeight}
             fill={theme.weekend}
           />
@@ -89,22 +156,76 @@ export function GanttGrid({
       }
     });
     return weekends;
-  }, [showWeekends, viewMode, gridDates, columnWidth, chartHeight, theme]);
+  }, [showWeekends, viewMode, gridDates, calendar, timeZone, dateRange, chartWidth, chartHeight, theme]);
+
+  // Time range bands, filled with a pattern unless solid
+  const timeRangeBands = useMemo(() => {
+    if (!timeRanges || timeRanges.length === 0) return null;
+
+    return getTimeRangeSpans(timeRanges, dateRange, chartWidth).map(({ range, index, x, width }) => {
+      const color = range.color || theme.timeRange;
+      const pattern = range.pattern ?? 'solid';
+      const patternId = `${patternPrefix}-${index}`;
+      return (
+        <g key={range.id} className="gantt-time-range">
+          {pattern !== 'solid' && (
+            <defs>
+              <TimeRangePatternDef id={patternId} pattern={pattern} color={color} />
+            </defs>
+          )}
+          <rect
+            x={x}
+            y={0}
+            width={width}
+            height={chartHeight}
+            fill={pattern === 'solid' ? color : `url(#${patternId})`}
+            fillOpacity={pattern === 'solid' ? 0.1 : 1}
+          >
+            {range.label && <title>{range.label}</title>}
+          </rect>
+        </g>
+      );
+    });
+  }, [timeRanges, dateRange, chartWidth, chartHeight, theme, patternPrefix]);
 
-  // Generate vertical grid lines (skip first line at x=0 to avoid double border)
+  // Generate vertical grid lines at each unit start (skip the chart's left edge to avoid double border)
   const verticalLines = useMemo(() => {
-    return gridDates.slice(1).map((_, index) => (
-      <line
-        key={`vline-${index + 1}`}
-        x1={(index + 1) * columnWidth}
-        y1={0}
-        x2={(index + 1) * columnWidth}
-        y2={chartHeight}
-        stroke={theme.gridLine}
-        strokeWidth={1}
-      />
-    ));
-  }, [gridDates, columnWidth, chartHeight, theme]);
+    return gridDates
+      .map((date) => dateToX(date, dateRange, chartWidth))
+      .filter((x, index, xs) => x > 0 && x !== xs[index - 1])
+      .map((x, index) => (
+        <line
+          key={`vline-${index}`}
+          x1={x}
+          y1={0}
+          x2={x}
+          y2={chartHeight}
+          stroke={theme.gridLine}
+          strokeWidth={1}
+        />
+      ));
+  }, [gridDates, dateRange, chartWidth, chartHeight, theme]);
+
+  // Break markers where a compressed timeline skips hidden time
+  const breakMarkers = useMemo(() => {
+    return (dateRange.hiddenIntervals ?? [])
+      .map((interval) => dateToX(interval.start, dateRange, chartWidth))
+      .filter((x) => x > 0 && x < chartWidth)
+      .map((x, index) => (
+        <g key={`break-${index}`}>
+          <rect x={x - 1.5} y={0} width={3} height={chartHeight} fill={theme.weekend} />
+          <line
+            x1={x}
+            y1={0}
+            x2={x}
+            y2={chartHeight}
+            stroke={theme.border}
+            strokeWidth={1}
+            strokeDasharray="3 3"
+          />
+        </g>
+      ));
+  }, [dateRange, chartWidth, chartHeight, theme]);
 
   // Generate horizontal grid lines (skip first and last to avoid double borders)
   const horizontalLines = useMemo(() => {
@@ -166,9 +287,17 @@ export function GanttGrid({
         <g className="gantt-grid-weekends">{weekendBackgrounds}</g>
       )}
 
+      {/* Time range bands */}
+      {timeRangeBands && timeRangeBands.length > 0 && (
+        <g className="gantt-grid-ranges">{timeRangeBands}</g>
+      )}
+
       {/* Vertical lines */}
       <g className="gantt-grid-vlines">{verticalLines}</g>
 
+      {/* Break markers */}
+      {breakMarkers.length > 0 && <g className="gantt-grid-breaks">{breakMarkers}</g>}
+
       {/* Horizontal lines */}
       <g className="gantt-grid-hlines">{horizontalLines}</g>
 
@@ -180,6 +309,9 @@ export function GanttGrid({
 
 /**
  * Separate header component for the timeline
+ *
+ * Renders one row per timescale tier; the bottom tier carries the cell
+ * labels, upper tiers group them (months over days, years over quarters, ...).
  */
 export function GanttGridHeader({
   dateRange,
@@ -188,19 +320,89 @@ export function GanttGridHeader({
   theme,
   locale = 'en-US',
   firstDayOfWeek = 1,
-}: Omit<GanttGridProps, 'rowCount' | 'rowHeight' | 'showWeekends' | 'showTodayMarker'>) {
-  const chartWidth = calculateChartWidth(dateRange, viewMode);
-  const columnWidth = getColumnWidth(viewMode);
+  calendar,
+  pixelsPerDay,
+  fiscalCalendar,
+  timeZone,
+  timescale,
+  markers,
+  timeRanges,
+}: Omit<GanttGridProps, 'rowCount' | 'rowHeight' | 'showWeekends' | 'showTodayMarker'> & {
+  /** Header tiers from top to bottom (default: tiers matching the view mode) */
+  timescale?: TimescaleTier[];
+  /** Custom time markers - labelled at the bottom edge of the header */
+  markers?: GanttMarker[];
+}) {
+  const chartWidth = calculateChartWidth(dateRange, viewMode, pixelsPerDay);
+  const tiers = useMemo(
+    () => (timescale && timescale.length > 0 ? timescale : getDefaultTimescale(viewMode, fiscalCalendar)),
+    [timescale, viewMode, fiscalCalendar]
+  );
 
-  const gridDates = useMemo(
-    () => generateDateGrid(dateRange, viewMode, firstDayOfWeek),
-    [dateRange, viewMode, firstDayOfWeek]
+  // Time ranges named in the header get a row of their own above the tiers
+  // (the parent adds its height to the header)
+  const headerTimeRanges = useMemo(
+    () => getTimeRangeSpans((timeRanges ?? []).filter((range) => range.showInHeader), dateRange, chartWidth),
+    [timeRanges, dateRange, chartWidth]
+  );
+  const rangeRowHeight = timeRanges?.some((range) => range.showInHeader) ? TIME_RANGE_ROW_HEIGHT : 0;
+  const tiersHeight = headerHeight - rangeRowHeight;
+
+  // Upper tiers share 40% of the height, the bottom tier gets the rest
+  const bottomRowHeight = tiers.length > 1 ? tiersHeight * 0.6 : tiersHeight;
+  const upperRowHeight = tiers.length > 1 ? (tiersHeight - bottomRowHeight) / (tiers.length - 1) : 0;
+
+  const rows = useMemo(
+    () =>
+      tiers.map((tier, tierIndex) => {
+        const isBottom = tierIndex === tiers.length - 1;
+        const y = rangeRowHeight + tierIndex * upperRowHeight;
+        const height = isBottom ? bottomRowHeight : upperRowHeight;
+
+        const cells: TimescaleCell[] = generateTimescaleCells(
+          dateRange,
+          tier.unit,
+          firstDayOfWeek,
+          fiscalCalendar,
+          timeZone
+        ).map(
+          ({ start, end }) => {
+            const x = dateToX(start, dateRange, chartWidth);
+            return {
+              unit: tier.unit,
+              start,
+              end,
+              x,
+              y,
+              width: dateToX(end, dateRange, chartWidth) - x,
+              height,
+            };
+          }
+        );
+
+        return { tier, isBottom, y, height, cells };
+      }),
+    [
+      tiers,
+      dateRange,
+      firstDayOfWeek,
+      fiscalCalendar,
+      timeZone,
+      chartWidth,
+      rangeRowHeight,
+      upperRowHeight,
+      bottomRowHeight,
+    ]
   );
 
-  // Determine if we need a two-row header
-  const hasTwoRows = viewMode === 'day' || viewMode === 'week';
-  const topRowHeight = hasTwoRows ? headerHeight * 0.4 : 0;
-  const bottomRowHeight = hasTwoRows ? headerHeight * 0.6 : headerHeight;
+  // Marker flags inside the date range
+  const markerFlags = useMemo(
+    () =>
+      (markers ?? [])
+        .filter((marker) => marker.date >= dateRange.start && marker.date <= dateRange.end)
+        .map((marker) => ({ marker, x: dateToX(marker.date, dateRange, chartWidth) })),
+    [markers, dateRange, chartWidth]
+  );
 
   return (
     <svg
@@ -218,113 +420,154 @@ export function GanttGridHeader({
         fill={theme.background}
       />
 
-      {/* Top row labels (months) */}
-      {hasTwoRows && (
-        <g className="gantt-header-top">
-          {(() => {
-            const labels: React.ReactNode[] = [];
-            let currentMonth = -1;
-            let monthStartX = 0;
-
-            gridDates.forEach((date, index) => {
-              const month = date.getMonth();
-              const x = index * columnWidth;
-
-              if (month !== currentMonth) {
-                if (currentMonth !== -1 && index > 0) {
-                  // Draw separator
-                  labels.push(
-                    <line
-                      key={`sep-${index}`}
-                      x1={x}
-                      y1={0}
-                      x2={x}
-                      y2={topRowHeight}
-                      stroke={theme.border}
-                      strokeWidth={1}
-                    />
-                  );
-                }
-                currentMonth = month;
-                monthStartX = x;
-              }
-
-              // Add label at month start
-              if (date.getDate() <= 7 || index === 0) {
-                const monthWidth = gridDates.filter(
-                  (d) => d.getMonth() === month && d.getFullYear() === date.getFullYear()
-                ).length * columnWidth;
-
-                if (monthWidth > 60) {
-                  labels.push(
+      {rows.map(({ tier, isBottom, y, height, cells }, tierIndex) => (
+        <g
+          key={`tier-${tierIndex}`}
+          className={isBottom ? 'gantt-header-bottom' : 'gantt-header-top'}
+        >
+          {/* Row separator */}
+          {(tierIndex > 0 || rangeRowHeight > 0) && (
+            <line
+              x1={0}
+              y1={y}
+              x2={chartWidth}
+              y2={y}
+              stroke={theme.border}
+              strokeWidth={1}
+            />
+          )}
+
+          {cells.map((cell, index) => {
+            // Cells entirely inside hidden time collapse to nothing
+            if (cell.width <= 0) return null;
+
+            const label = tier.format
+              ? tier.format(cell.start, locale, timeZone)
+              : formatTimescaleLabel(cell.start, tier.unit, locale, fiscalCalendar, firstDayOfWeek, timeZone);
+
+            // Bottom tier: centered labels; upper tiers: labels at the visible start of the period
+            const labelX = isBottom ? cell.x + cell.width / 2 : Math.max(cell.x, 0) + 8;
+            const showLabel = isBottom || cell.x + cell.width - Math.max(cell.x, 0) > 60;
+
+            const isTodayCell = isBottom && cell.unit === 'day' && isToday(cell.start, timeZone);
+            const isNonWorking =
+              isBottom &&
+              ((cell.unit === 'day' && !isWorkingDay(cell.start, calendar, timeZone)) ||
+                (cell.unit === 'hour' && !isWorkingHour(cell.start, calendar, timeZone)));
+
+            return (
+              <g key={`cell-${index}`}>
+                {/* Cell separator - skip the chart's left edge to avoid double border */}
+                {cell.x > 0 && (
+                  <line
+                    x1={cell.x}
+                    y1={y}
+                    x2={cell.x}
+                    y2={y + height}
+                    stroke={isBottom ? theme.gridLine : theme.border}
+                    strokeWidth={1}
+                  />
+                )}
+
+                {tier.renderCell ? (
+                  tier.renderCell(cell)
+                ) : (
+                  showLabel && (
                     <text
-                      key={`month-${month}-${date.getFullYear()}`}
-                      x={monthStartX + 8}
-                      y={topRowHeight - 6}
+                      x={labelX}
+                      y={isBottom ? y + height / 2 + 4 : y + height - 6}
                       fontSize={11}
-                      fill={theme.textMuted}
-                      fontWeight={500}
+                      fill={
+                        isTodayCell
+                          ? theme.primary
+                          : isNonWorking || !isBottom
+                          ? theme.textMuted
+                          : theme.text
+                      }
+                      fontWeight={isTodayCell ? 600 : isBottom ? 400 : 500}
+                      textAnchor={isBottom ? 'middle' : 'start'}
                     >
-                      {getMonthName(date, locale, 'short')} {date.getFullYear()}
+                      {label}
                     </text>
-                  );
-                }
-              }
-            });
-
-            return labels;
-          })()}
+                  )
+                )}
+              </g>
+            );
+          })}
         </g>
-      )}
+      ))}
 
-      {/* Row separator */}
-      {hasTwoRows && (
-        <line
-          x1={0}
-          y1={topRowHeight}
-          x2={chartWidth}
-          y2={topRowHeight}
-          stroke={theme.border}
-          strokeWidth={1}
-        />
+      {/* Time range row - each band with its name */}
+      {headerTimeRanges.length > 0 && (
+        <g className="gantt-header-ranges">
+          {headerTimeRanges.map(({ range, x, width }) => {
+            const color = range.color || theme.timeRange;
+            return (
+              <g key={range.id}>
+                <rect
+                  x={x}
+                  y={1}
+                  width={width}
+                  height={rangeRowHeight - 2}
+                  rx={2}
+                  fill={color}
+                  fillOpacity={0.2}
+                />
+                {/* Nested svg clips the label to the band */}
+                {range.label && (
+                  <svg x={x} y={0} width={width} height={rangeRowHeight}>
+                    <text
+                      x={Math.max(-x, 0) + 4}
+                      y={rangeRowHeight / 2 + 4}
+                      fontSize={10}
+                      fontWeight={500}
+                      fill={theme.text}
+                    >
+                      {range.label}
+                    </text>
+                  </svg>
+                )}
+              </g>
+            );
+          })}
+        </g>
       )}
 
-      {/* Bottom row labels (days/weeks/months) */}
-      <g className="gantt-header-bottom">
-        {gridDates.map((date, index) => {
-          const x = index * columnWidth;
-          const label = formatDate(date, viewMode, locale);
-          const isWeekendDay = isWeekend(date);
-          const isTodayDay = isToday(date);
-
-          return (
-            <g key={`cell-${index}`}>
-              {/* Cell separator - skip first one (x=0) to avoid double border */}
-              {index > 0 && (
-                <line
-                  x1={x}
-                  y1={hasTwoRows ? topRowHeight : 0}
-                  x2={x}
-                  y2={headerHeight}
-                  stroke={theme.gridLine}
-                  strokeWidth={1}
-                />
-              )}
-              {/* Label */}
-              <text
-                x={x + columnWidth / 2}
-                y={hasTwoRows ? topRowHeight + bottomRowHeight / 2 + 4 : headerHeight / 2 + 4}
-                fontSize={11}
-                fill={isTodayDay ? theme.primary : isWeekendDay ? theme.textMuted : theme.text}
-                fontWeight={isTodayDay ? 600 : 400}
-                textAnchor="middle"
+      {/* Marker flags - a pointer at the marker's date and its label */}
+      {markerFlags.length > 0 && (
+        <g className="gantt-header-markers">
+          {markerFlags.map(({ marker, x }) => {
+            const color = marker.color || theme.marker;
+            return (
+              <g
+                key={marker.id}
+                className="gantt-header-marker"
+                style={{ cursor: marker.onClick ? 'pointer' : undefined }}
+                onClick={marker.onClick ? (event) => marker.onClick!(marker, event) : undefined}
               >
-                {label}
-              </text>
-            </g>
-          );
-        })}
-      </g>
+                <path
+                  d={`M ${x - 4} ${headerHeight - 6} L ${x + 4} ${headerHeight - 6} L ${x} ${headerHeight} Z`}
+                  fill={color}
+                />
+                {marker.label && (
+                  <text
+                    x={x + 6}
+                    y={headerHeight - 3}
+                    fontSize={10}
+                    fontWeight={600}
+                    fill={color}
+                    stroke={theme.background}
+                    strokeWidth={3}
+                    paintOrder="stroke"
+                  >
+                    {marker.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      )}
     </svg>
   );
 }
@@ -0,0 +1,65 @@
+/**
+ * GanttMarkers - Renders custom time markers as vertical lines across the chart body
+ */
+
+import { useMemo } from 'react';
+import type { DateRange, GanttMarker, GanttTheme, MarkerLineStyle } from '../types';
+import { dateToX } from '../utils/position';
+
+interface GanttMarkersProps {
+  markers: GanttMarker[];
+  dateRange: DateRange;
+  chartWidth: number;
+  chartHeight: number;
+  theme: Required<GanttTheme>;
+}
+
+const dashArrays: Record<MarkerLineStyle, string | undefined> = {
+  solid: undefined,
+  dashed: '6 4',
+  dotted: '2 3',
+};
+
+export function GanttMarkers({ markers, dateRange, chartWidth, chartHeight, theme }: GanttMarkersProps) {
+  const lines = useMemo(
+    () =>
+      markers
+        .filter((marker) => marker.date >= dateRange.start && marker.date <= dateRange.end)
+        .map((marker) => ({ marker, x: dateToX(marker.date, dateRange, chartWidth) })),
+    [markers, dateRange, chartWidth]
+  );
+
+  if (lines.length === 0) return null;
+
+  return (
+    <g className="gantt-markers">
+      {lines.map(({ marker, x }) => {
+        const color = marker.color || theme.marker;
+        return (
+          <g
+            key={marker.id}
+            className="gantt-marker"
+            style={{ cursor: marker.onClick ? 'pointer' : undefined }}
+            onClick={marker.onClick ? (event) => marker.onClick!(marker, event) : undefined}
+          >
+            {/* Wider invisible hit area for clicking */}
+            {marker.onClick && (
+              <line x1={x} y1={0} x2={x} y2={chartHeight} stroke="transparent" strokeWidth={8} />
+            )}
+            <line
+              x1={x}
+              y1={0}
+              x2={x}
+              y2={chartHeight}
+              stroke={color}
+              strokeWidth={1.5}
+              strokeDasharray={dashArrays[marker.lineStyle ?? 'dashed']}
+            />
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+export default GanttMarkers;
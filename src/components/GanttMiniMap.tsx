@@ -0,0 +1,207 @@
+/**
+ * GanttMiniMap - Scaled-down overview of every row with a draggable viewport
+ *
+ * Bars are drawn on a canvas that only redraws when the tasks, size or theme
+ * change; scrolling just moves the viewport rectangle.
+ */
+
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import type { ComputedTask, GanttTheme } from '../types';
+
+interface GanttMiniMapProps {
+  /** Visible tasks, in row order */
+  tasks: ComputedTask[];
+  chartWidth: number;
+  rowHeight: number;
+  theme: Required<GanttTheme>;
+  /** Horizontal scroll container (keeps header and body in sync) */
+  horizontalScrollRef: React.RefObject<HTMLElement>;
+  /** Vertical scroll container (keeps the task list in sync) */
+  verticalScrollRef: React.RefObject<HTMLElement>;
+  /** Strip height in pixels (default 64) */
+  height?: number;
+}
+
+/**
+ * Bar color, following the task bar's own precedence
+ */
+function getBarColor(task: ComputedTask, theme: Required<GanttTheme>): string {
+  if (task.isOverdue && task.type !== 'group') return theme.overdue;
+  if (task.isCritical) return theme.critical;
+  if (task.type === 'group') return theme.group;
+  if (task.type === 'milestone') return theme.milestone;
+  return task.styles?.backgroundColor || task.color || theme.taskBar;
+}
+
+export function GanttMiniMap({
+  tasks,
+  chartWidth,
+  rowHeight,
+  theme,
+  horizontalScrollRef,
+  verticalScrollRef,
+  height = 64,
+}: GanttMiniMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const stopDragRef = useRef<(() => void) | null>(null);
+  const [width, setWidth] = useState(0);
+
+  const scaleX = chartWidth > 0 ? width / chartWidth : 0;
+  const scaleY = height / Math.max(tasks.length * rowHeight, height);
+
+  // Follow the strip's width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => setWidth(container.clientWidth);
+    measure();
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+
+    // Also catches layout changes that leave the window size alone
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the bars
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    const rowSize = rowHeight * scaleY;
+    const barHeight = Math.max(1, rowSize * 0.6);
+    for (const task of tasks) {
+      context.fillStyle = getBarColor(task, theme);
+      context.fillRect(
+        task.x * scaleX,
+        task.rowIndex * rowSize + (rowSize - barHeight) / 2,
+        Math.max(1, task.width * scaleX),
+        barHeight
+      );
+    }
+  }, [tasks, width, height, rowHeight, scaleX, scaleY, theme]);
+
+  // Move the viewport rectangle to the current scroll position
+  const updateViewport = useCallback(() => {
+    const scroller = horizontalScrollRef.current;
+    const body = verticalScrollRef.current;
+    const viewport = viewportRef.current;
+    if (!scroller || !body || !viewport) return;
+
+    viewport.style.left = `${scroller.scrollLeft * scaleX}px`;
+    viewport.style.width = `${Math.min(scroller.clientWidth, chartWidth) * scaleX}px`;
+    viewport.style.top = `${body.scrollTop * scaleY}px`;
+    viewport.style.height = `${Math.min(body.clientHeight * scaleY, height)}px`;
+  }, [horizontalScrollRef, verticalScrollRef, scaleX, scaleY, chartWidth, height]);
+
+  useEffect(() => {
+    updateViewport();
+
+    const scroller = horizontalScrollRef.current;
+    const body = verticalScrollRef.current;
+    scroller?.addEventListener('scroll', updateViewport);
+    body?.addEventListener('scroll', updateViewport);
+    window.addEventListener('resize', updateViewport);
+
+    return () => {
+      scroller?.removeEventListener('scroll', updateViewport);
+      body?.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [horizontalScrollRef, verticalScrollRef, updateViewport]);
+
+  // Stop listening if unmounted mid-drag
+  useEffect(() => () => stopDragRef.current?.(), []);
+
+  // Drag the viewport - grabbed where pressed, or centered on a press outside it.
+  // Scrolling goes through the scroll containers so the chart stays in sync.
+  const handleMouseDown = useCallback(
+    (event: React.MouseEvent) => {
+      const scroller = horizontalScrollRef.current;
+      const body = verticalScrollRef.current;
+      const container = containerRef.current;
+      if (!scroller || !body || !container || scaleX === 0 || event.button !== 0) return;
+      event.preventDefault();
+
+      const rect = container.getBoundingClientRect();
+      const left = scroller.scrollLeft * scaleX;
+      const top = body.scrollTop * scaleY;
+      const viewWidth = Math.min(scroller.clientWidth, chartWidth) * scaleX;
+      const viewHeight = Math.min(body.clientHeight * scaleY, height);
+      const pressX = event.clientX - rect.left;
+      const pressY = event.clientY - rect.top;
+
+      const isInside =
+        pressX >= left && pressX <= left + viewWidth && pressY >= top && pressY <= top + viewHeight;
+      const grab = isInside ? { x: pressX - left, y: pressY - top } : { x: viewWidth / 2, y: viewHeight / 2 };
+
+      const moveTo = (clientX: number, clientY: number) => {
+        scroller.scrollLeft = (clientX - rect.left - grab.x) / scaleX;
+        body.scrollTop = (clientY - rect.top - grab.y) / scaleY;
+      };
+
+      const handleMouseMove = (e: MouseEvent) => moveTo(e.clientX, e.clientY);
+      const stopDrag = () => {
+        document.removeEventListener('mousemove', handleMouseMove);
+        document.removeEventListener('mouseup', stopDrag);
+        stopDragRef.current = null;
+      };
+
+      moveTo(event.clientX, event.clientY);
+      document.addEventListener('mousemove', handleMouseMove);
+      document.addEventListener('mouseup', stopDrag);
+      stopDragRef.current = stopDrag;
+    },
+    [horizontalScrollRef, verticalScrollRef, scaleX, scaleY, chartWidth, height]
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className="gantt-minimap"
+      style={{
+        position: 'relative',
+        flexShrink: 0,
+        height,
+        overflow: 'hidden',
+        cursor: 'pointer',
+        userSelect: 'none',
+        borderTop: `1px solid ${theme.border}`,
+        backgroundColor: theme.backgroundAlt || theme.background,
+      }}
+      onMouseDown={handleMouseDown}
+    >
+      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height }} />
+
+      {/* Viewport rectangle */}
+      <div
+        ref={viewportRef}
+        className="gantt-minimap-viewport"
+        style={{
+          position: 'absolute',
+          boxSizing: 'border-box',
+          border: `1.5px solid ${theme.primary}`,
+          borderRadius: 2,
+          cursor: 'grab',
+        }}
+      >
+        <div style={{ position: 'absolute', inset: 0, backgroundColor: theme.primary, opacity: 0.1 }} />
+      </div>
+    </div>
+  );
+}
+
+export default GanttMiniMap;
@@ -8,11 +8,16 @@
  * - Milestone rendering
  * - Group/summary bar rendering
  * - Critical path highlighting
+ * - Constraint glyphs and violation indicators
+ * - Deadline markers and overdue highlighting
+ * - Slack (total float) bars
  */
 
 import React, { useMemo } from 'react';
 import type { ComputedTask, GanttTheme } from '../types';
+import type { BarDimensions } from '../utils/position';
 import { getBarDimensions } from '../utils/position';
+import { isStartConstraint } from '../utils/constraints';
 
 type DragMode = 'move' | 'resize-left' | 'resize-right';
 
@@ -55,6 +60,15 @@ export function GanttTaskBar({
     const progressColor = task.styles?.progressColor || theme.taskProgress;
     const baselineColor = task.styles?.baselineColor || theme.baseline;
 
+    // Overdue override (ends after its deadline)
+    if (task.isOverdue && task.type !== 'group') {
+      return {
+        bar: theme.overdue,
+        progress: adjustColor(theme.overdue, 0.3),
+        baseline: baselineColor,
+      };
+    }
+
     // Critical path override
     if (task.isCritical) {
       return {
@@ -128,6 +142,8 @@ export function GanttTaskBar({
           />
         )}
 
+        <SlackBar task={task} dims={dims} theme={theme} />
+
         {/* Current milestone */}
         <polygon
           points={getMilestonePoints(
@@ -135,10 +151,19 @@ export function GanttTaskBar({
             dims.taskBar.y + dims.taskBar.height / 2,
             dims.taskBar.height * 0.8
           )}
-          fill={task.isCritical ? theme.critical : theme.milestone}
+          fill={task.isOverdue ? theme.overdue : task.isCritical ? theme.critical : theme.milestone}
           stroke={isSelected || isHovered ? theme.primary : 'none'}
           strokeWidth={isSelected || isHovered ? 2 : 0}
         />
+
+        <DeadlineMarker task={task} dims={dims} theme={theme} />
+
+        <ConstraintIndicators
+          task={task}
+          dims={dims}
+          theme={theme}
+          barEndX={task.x + dims.taskBar.height * 0.4}
+        />
       </g>
     );
   }
@@ -239,6 +264,9 @@ export function GanttTaskBar({
         />
       )}
 
+      {/* Slack bar (trails the task bar) */}
+      <SlackBar task={task} dims={dims} theme={theme} />
+
       {/* ========== CURRENT SCHEDULE BAR ========== */}
       {/* Background bar */}
       <rect
@@ -249,8 +277,14 @@ export function GanttTaskBar({
         height={dims.taskBar.height}
         rx={dims.taskBar.cornerRadius}
         fill={colors.bar}
-        stroke={isSelected ? theme.primary : isHovered ? theme.primary : 'none'}
-        strokeWidth={isSelected ? 2 : isHovered ? 1 : 0}
+        stroke={
+          isSelected || isHovered
+            ? theme.primary
+            : task.constraintViolation
+            ? theme.violation
+            : 'none'
+        }
+        strokeWidth={isSelected ? 2 : isHovered || task.constraintViolation ? 1.5 : 0}
         opacity={isHovered ? 0.9 : 1}
       />
 
@@ -285,6 +319,17 @@ export function GanttTaskBar({
         />
       )}
 
+      {/* Deadline marker */}
+      <DeadlineMarker task={task} dims={dims} theme={theme} />
+
+      {/* Constraint glyph and violation indicator */}
+      <ConstraintIndicators
+        task={task}
+        dims={dims}
+        theme={theme}
+        barEndX={task.x + task.width}
+      />
+
       {/* Resize handles (invisible, just for hit area) */}
       {!task.isDisabled && (
         <>
@@ -322,6 +367,146 @@ export function GanttTaskBar({
   );
 }
 
+/**
+ * Slack bar - a thin bar from the task end to its late finish
+ */
+function SlackBar({
+  task,
+  dims,
+  theme,
+}: {
+  task: ComputedTask;
+  dims: BarDimensions;
+  theme: Required<GanttTheme>;
+}) {
+  if (task.slackX === undefined || task.slackWidth === undefined) return null;
+
+  return (
+    <rect
+      className="gantt-task-slack"
+      x={task.slackX}
+      y={dims.slackBar.y}
+      width={task.slackWidth}
+      height={dims.slackBar.height}
+      rx={dims.slackBar.height / 2}
+      fill={theme.slack}
+      opacity={0.7}
+      pointerEvents="none"
+    />
+  );
+}
+
+/**
+ * Deadline marker - a downward flag over a dashed line at the deadline
+ */
+function DeadlineMarker({
+  task,
+  dims,
+  theme,
+}: {
+  task: ComputedTask;
+  dims: BarDimensions;
+  theme: Required<GanttTheme>;
+}) {
+  if (task.deadlineX === undefined) return null;
+
+  const x = task.deadlineX;
+  const top = dims.taskBar.y - 2;
+  const bottom = dims.baselineBar.y + dims.baselineBar.height;
+
+  return (
+    <g className="gantt-task-deadline" pointerEvents="none">
+      <line
+        x1={x}
+        y1={top}
+        x2={x}
+        y2={bottom}
+        stroke={theme.deadline}
+        strokeWidth={1.5}
+        strokeDasharray="3 2"
+      />
+      <polygon points={`${x - 4},${top - 5} ${x + 4},${top - 5} ${x},${top}`} fill={theme.deadline} />
+    </g>
+  );
+}
+
+/**
+ * Constraint glyph (at the constraint date) and violation badge (after the bar)
+ *
+ * Start/finish "no earlier than" glyphs point right, "no later than" glyphs
+ * point left, and "must start/finish on" glyphs end in a dot. ALAP tasks get
+ * a small arrow after the bar.
+ */
+function ConstraintIndicators({
+  task,
+  dims,
+  theme,
+  barEndX,
+}: {
+  task: ComputedTask;
+  dims: BarDimensions;
+  theme: Required<GanttTheme>;
+  barEndX: number;
+}) {
+  const top = dims.taskBar.y - 3;
+  const bottom = dims.taskBar.y + dims.taskBar.height + 3;
+  const midY = dims.taskBar.y + dims.taskBar.height / 2;
+  const type = task.constraintType;
+
+  let glyph: React.ReactNode = null;
+
+  if (type && task.constraintX !== undefined) {
+    const x = task.constraintX;
+    const color = task.constraintViolation ? theme.violation : theme.constraint;
+    const direction = type === 'SNET' || type === 'FNET' ? 1 : type === 'SNLT' || type === 'FNLT' ? -1 : 0;
+
+    glyph = (
+      <g className="gantt-task-constraint" pointerEvents="none">
+        <line x1={x} y1={top} x2={x} y2={bottom} stroke={color} strokeWidth={1.5} />
+        {direction === 0 ? (
+          <circle cx={x} cy={isStartConstraint(type) ? top : bottom} r={2.5} fill={color} />
+        ) : (
+          <polygon
+            points={`${x},${top} ${x + 5 * direction},${top + 3} ${x},${top + 6}`}
+            fill={color}
+          />
+        )}
+      </g>
+    );
+  } else if (type === 'ALAP') {
+    glyph = (
+      <polygon
+        className="gantt-task-constraint"
+        points={`${barEndX + 3},${midY - 3} ${barEndX + 7},${midY} ${barEndX + 3},${midY + 3}`}
+        fill={theme.constraint}
+        pointerEvents="none"
+      />
+    );
+  }
+
+  return (
+    <>
+      {glyph}
+      {task.constraintViolation && (
+        <g className="gantt-task-violation">
+          <title>{task.constraintViolation.message}</title>
+          <circle cx={barEndX + 10} cy={midY} r={6} fill={theme.violation} />
+          <text
+            x={barEndX + 10}
+            y={midY + 3.5}
+            fontSize={10}
+            fontWeight={700}
+            fill="#ffffff"
+            textAnchor="middle"
+          >
+            !
+          </text>
+        </g>
+      )}
+    </>
+  );
+}
+
 /**
  * Generate diamond points for milestone
  */
@@ -4,7 +4,7 @@
 
 import React, { useMemo } from 'react';
 import type { ComputedTask, GanttColumn, GanttTheme } from '../types';
-import { formatDateCompact } from '../utils/date';
+import { createDefaultColumns } from '../utils/columns';
 
 interface GanttTaskListProps {
   tasks: ComputedTask[];
@@ -14,6 +14,8 @@ interface GanttTaskListProps {
   width: number;
   theme: Required<GanttTheme>;
   locale?: string;
+  /** Time zone the default date columns are formatted in (default local time) */
+  timeZone?: string;
   selectedTaskId?: string | null;
   hoveredTaskId?: string | null;
   collapsedIds?: Set<string>;
@@ -22,38 +24,15 @@ interface GanttTaskListProps {
   onGroupToggle?: (taskId: string) => void;
 }
 
-// Default columns
-const defaultColumns: GanttColumn[] = [
-  {
-    id: 'name',
-    header: 'Task Name',
-    width: 200,
-    minWidth: 100,
-  },
-  {
-    id: 'start',
-    header: 'Start',
-    width: 80,
-    align: 'center',
-    accessor: (task) => formatDateCompact(task.start),
-  },
-  {
-    id: 'end',
-    header: 'End',
-    width: 80,
-    align: 'center',
-    accessor: (task) => formatDateCompact(task.end),
-  },
-];
-
 export function GanttTaskList({
   tasks,
-  columns = defaultColumns,
+  columns: userColumns,
   rowHeight,
   headerHeight,
   width,
   theme,
   locale = 'en-US',
+  timeZone,
   selectedTaskId,
   hoveredTaskId,
   collapsedIds = new Set(),
@@ -61,6 +40,11 @@ export function GanttTaskList({
   onTaskDoubleClick,
   onGroupToggle,
 }: GanttTaskListProps) {
+  const columns = useMemo(
+    () => userColumns ?? createDefaultColumns({ locale, timeZone }),
+    [userColumns, locale, timeZone]
+  );
+
   // Only render visible tasks
   const visibleTasks = useMemo(() => {
     return tasks.filter((t) => t.isVisible);
@@ -4,13 +4,16 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import type { ComputedTask, GanttTheme } from '../types';
-import { formatDateCompact } from '../utils/date';
+import { formatDateCompact, getDaysLate } from '../utils/date';
+import { constraintLabels, isDateConstraint } from '../utils/constraints';
 
 interface GanttTooltipProps {
   task: ComputedTask | null;
   mousePosition: { x: number; y: number } | null;
   containerRef: React.RefObject<HTMLElement>;
   theme: Required<GanttTheme>;
+  /** Time zone dates are shown in (default local time) */
+  timeZone?: string;
   renderContent?: (task: ComputedTask) => React.ReactNode;
 }
 
@@ -19,6 +22,7 @@ export function GanttTooltip({
   mousePosition,
   containerRef,
   theme,
+  timeZone,
   renderContent,
 }: GanttTooltipProps) {
   const tooltipRef = useRef<HTMLDivElement>(null);
@@ -117,12 +121,12 @@ export function GanttTooltip({
       <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
         <TooltipRow
           label="Start"
-          value={formatDateCompact(task.start)}
+          value={formatDateCompact(task.start, undefined, timeZone)}
           theme={theme}
         />
         <TooltipRow
           label="End"
-          value={formatDateCompact(task.end)}
+          value={formatDateCompact(task.end, undefined, timeZone)}
           theme={theme}
         />
         <TooltipRow
@@ -131,6 +135,54 @@ export function GanttTooltip({
           theme={theme}
         />
 
+        {/* Float (when the schedule has been computed) */}
+        {task.schedule && (
+          <>
+            <TooltipRow
+              label="Free float"
+              value={formatFloat(task.schedule.freeFloat)}
+              theme={theme}
+            />
+            <TooltipRow
+              label="Total float"
+              value={formatFloat(task.schedule.totalFloat)}
+              theme={theme}
+            />
+          </>
+        )}
+
+        {/* Deadline */}
+        {task.deadline && (
+          <TooltipRow
+            label="Deadline"
+            value={formatDateCompact(task.deadline, undefined, timeZone)}
+            theme={theme}
+          />
+        )}
+        {task.deadline && task.isOverdue && (
+          <div style={{ fontSize: 11, color: theme.overdue }}>
+            {getDaysLate(task.end, task.deadline, timeZone)}d late
+          </div>
+        )}
+
+        {/* Constraint */}
+        {task.constraintType && task.constraintType !== 'ASAP' && (
+          <TooltipRow
+            label={constraintLabels[task.constraintType]}
+            value={
+              isDateConstraint(task.constraintType) && task.constraintDate
+                ? formatDateCompact(task.constraintDate, undefined, timeZone)
+                : ''
+            }
+            theme={theme}
+          />
+        )}
+        {task.constraintViolation && (
+          <div style={{ fontSize: 11, color: theme.violation }}>
+            Constraint broken by {Math.ceil(task.constraintViolation.days)}d
+          </div>
+        )}
+
         {/* Baseline dates (if exists) */}
         {task.baselineStart && task.baselineEnd && (
           <>
@@ -149,13 +201,13 @@ export function GanttTooltip({
             </div>
             <TooltipRow
               label="Start"
-              value={formatDateCompact(task.baselineStart)}
+              value={formatDateCompact(task.baselineStart, undefined, timeZone)}
               theme={theme}
               muted
             />
             <TooltipRow
               label="End"
-              value={formatDateCompact(task.baselineEnd)}
+              value={formatDateCompact(task.baselineEnd, undefined, timeZone)}
               theme={theme}
               muted
             />
@@ -192,6 +244,13 @@ export function GanttTooltip({
   );
 }
 
+/**
+ * Format float in days, e.g. "2.5d"
+ */
+function formatFloat(days: number): string {
+  return `${Math.round(days * 10) / 10}d`;
+}
+
 interface TooltipRowProps {
   label: string;
   value: string;
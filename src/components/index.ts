@@ -3,4 +3,6 @@ export { GanttGrid, GanttGridHeader } from './GanttGrid';
 export { GanttTaskBar, GanttTaskBars } from './GanttTaskBar';
 export { GanttTaskList } from './GanttTaskList';
 export { GanttDependencies } from './GanttDependencies';
+export { GanttMarkers } from './GanttMarkers';
+export { GanttMiniMap } from './GanttMiniMap';
 export { GanttTooltip } from './GanttTooltip';
@@ -1,2 +1,3 @@
 export { useDrag } from './useDrag';
 export { useScroll } from './useScroll';
+export { useZoom } from './useZoom';
@@ -3,12 +3,34 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { ComputedTask, DateRange, ViewMode } from '../types';
+import type {
+  ComputedTask,
+  DateRange,
+  ViewMode,
+  GanttTask,
+  GanttDependency,
+  AutoScheduleMode,
+  TaskDateRange,
+  GanttCalendar,
+  GanttResource,
+} from '../types';
 import { xToDate, dateToX, snapToGrid } from '../utils/position';
 import { startOfDay, addDays, diffInDays } from '../utils/date';
+import {
+  isWorkingDay,
+  nextWorkingDay,
+  addWorkingDays,
+  diffInWorkingDays,
+  addDuration,
+  getTaskCalendar,
+} from '../utils/calendar';
+import { computeCriticalPath, createDateChangePropagator } from '../utils/schedule';
+import { applyConstraint } from '../utils/constraints';
 
 type DragMode = 'move' | 'resize-left' | 'resize-right' | null;
 
+const MS_PER_MINUTE = 60 * 1000;
+
 interface DragState {
   task: ComputedTask;
   mode: DragMode;
@@ -17,17 +39,47 @@ interface DragState {
   startTaskWidth: number;
   originalStart: Date;
   originalEnd: Date;
+  /** Cascades the preview dates to successors (built once per drag) */
+  propagate: ReturnType<typeof createDateChangePropagator>;
+  /** Late start of an ALAP task (from the backward pass) */
+  lateStart?: Date;
 }
 
 interface UseDragOptions {
   dateRange: DateRange;
   chartWidth: number;
   viewMode: ViewMode;
+  /** Snapping step in hour view, in minutes (default 60) */
+  snapInterval?: number;
+  /** First day of the weeks quarter view snaps to (default Monday) */
+  firstDayOfWeek?: 0 | 1;
+  /** Time zone days and hours snap in (default local time) */
+  timeZone?: string;
   allowDrag?: boolean;
   allowResize?: boolean;
+  /** All tasks (needed to cascade changes to successors) */
+  tasks?: GanttTask[];
+  /** Dependencies used for auto-scheduling */
+  dependencies?: GanttDependency[];
+  /** How successors follow the dragged task */
+  autoSchedule?: AutoScheduleMode;
+  /** Working-time calendar - moves keep the working-day duration and snap to working days */
+  calendar?: GanttCalendar;
+  /** Resources - the dragged task's duration follows its assignees' calendars */
+  resources?: GanttResource[];
+  /** `respect` clamps drags to task constraints, `flag` lets them through */
+  constraintMode?: 'respect' | 'flag';
   onDragStart?: (task: ComputedTask) => void;
   onDragMove?: (task: ComputedTask, newStart: Date, newEnd: Date) => void;
-  onDragEnd?: (task: ComputedTask, newStart: Date, newEnd: Date, cancelled: boolean, isResize: boolean) => void;
+  onDragEnd?: (
+    task: ComputedTask,
+    newStart: Date,
+    newEnd: Date,
+    cancelled: boolean,
+    isResize: boolean,
+    /** New dates of every task that moved, keyed by task ID (includes the dragged task) */
+    changes: Map<string, TaskDateRange>
+  ) => void;
 }
 
 interface UseDragResult {
@@ -35,6 +87,8 @@ interface UseDragResult {
   draggedTask: ComputedTask | null;
   previewStart: Date | null;
   previewEnd: Date | null;
+  /** Preview dates of successors moved by auto-scheduling */
+  cascadePreview: Map<string, TaskDateRange>;
   handleMouseDown: (
     task: ComputedTask,
     event: React.MouseEvent,
@@ -48,8 +102,17 @@ export function useDrag({
   dateRange,
   chartWidth,
   viewMode,
+  snapInterval = 60,
+  firstDayOfWeek = 1,
+  timeZone,
   allowDrag = true,
   allowResize = true,
+  tasks = [],
+  dependencies = [],
+  autoSchedule = 'none',
+  calendar,
+  resources = [],
+  constraintMode = 'respect',
   onDragStart,
   onDragMove,
   onDragEnd,
@@ -57,15 +120,26 @@ export function useDrag({
   const [isDragging, setIsDragging] = useState(false);
   const [previewStart, setPreviewStart] = useState<Date | null>(null);
   const [previewEnd, setPreviewEnd] = useState<Date | null>(null);
+  const [cascadePreview, setCascadePreview] = useState<Map<string, TaskDateRange>>(new Map());
 
   const dragState = useRef<DragState | null>(null);
 
   // Use refs for values that change during drag to avoid effect re-runs
   const previewStartRef = useRef<Date | null>(null);
   const previewEndRef = useRef<Date | null>(null);
+  const cascadeRef = useRef<Map<string, TaskDateRange>>(new Map());
   const dateRangeRef = useRef(dateRange);
   const chartWidthRef = useRef(chartWidth);
   const viewModeRef = useRef(viewMode);
+  const snapIntervalRef = useRef(snapInterval);
+  const firstDayOfWeekRef = useRef(firstDayOfWeek);
+  const timeZoneRef = useRef(timeZone);
+  const tasksRef = useRef(tasks);
+  const dependenciesRef = useRef(dependencies);
+  const autoScheduleRef = useRef(autoSchedule);
+  const calendarRef = useRef(calendar);
+  const resourcesRef = useRef(resources);
+  const constraintModeRef = useRef(constraintMode);
   const onDragMoveRef = useRef(onDragMove);
   const onDragEndRef = useRef(onDragEnd);
 
@@ -73,6 +147,15 @@ export function useDrag({
   dateRangeRef.current = dateRange;
   chartWidthRef.current = chartWidth;
   viewModeRef.current = viewMode;
+  snapIntervalRef.current = snapInterval;
+  firstDayOfWeekRef.current = firstDayOfWeek;
+  timeZoneRef.current = timeZone;
+  tasksRef.current = tasks;
+  dependenciesRef.current = dependencies;
+  autoScheduleRef.current = autoSchedule;
+  calendarRef.current = calendar;
+  resourcesRef.current = resources;
+  constraintModeRef.current = constraintMode;
   onDragMoveRef.current = onDragMove;
   onDragEndRef.current = onDragEnd;
 
@@ -87,6 +170,12 @@ export function useDrag({
       event.preventDefault();
       event.stopPropagation();
 
+      const scheduleOptions = {
+        calendar: calendarRef.current,
+        resources: resourcesRef.current,
+        timeZone: timeZoneRef.current,
+      };
+
       dragState.current = {
         task,
         mode,
@@ -95,6 +184,12 @@ export function useDrag({
         startTaskWidth: task.width,
         originalStart: task.start,
         originalEnd: task.end,
+        propagate: createDateChangePropagator(tasksRef.current, dependenciesRef.current, scheduleOptions),
+        lateStart:
+          task.constraintType === 'ALAP'
+            ? computeCriticalPath(tasksRef.current, dependenciesRef.current, scheduleOptions).tasks.get(task.id)
+                ?.lateStart
+            : undefined,
       };
 
       // Update both state and refs
@@ -120,6 +215,10 @@ export function useDrag({
       const currentDateRange = dateRangeRef.current;
       const currentChartWidth = chartWidthRef.current;
       const currentViewMode = viewModeRef.current;
+      const currentSnap = snapIntervalRef.current;
+      const currentFirstDayOfWeek = firstDayOfWeekRef.current;
+      const currentTimeZone = timeZoneRef.current;
+      const currentCalendar = getTaskCalendar(state.task, resourcesRef.current, calendarRef.current);
 
       const deltaX = event.clientX - state.startX;
       let newStart: Date;
@@ -129,25 +228,73 @@ export function useDrag({
         case 'move': {
           // Calculate new position
           const newX = state.startTaskX + deltaX;
-          const snappedX = snapToGrid(newX, currentDateRange, currentChartWidth, currentViewMode);
+          const snappedX = snapToGrid(
+            newX,
+            currentDateRange,
+            currentChartWidth,
+            currentViewMode,
+            currentSnap,
+            currentFirstDayOfWeek,
+            currentTimeZone
+          );
           newStart = xToDate(snappedX, currentDateRange, currentChartWidth);
 
-          // Maintain duration
-          const duration = diffInDays(state.originalStart, state.originalEnd);
-          newEnd = addDays(newStart, duration);
+          // Maintain duration (in working days when a calendar is set)
+          if (currentCalendar) {
+            if (!isWorkingDay(newStart, currentCalendar, currentTimeZone)) {
+              newStart = nextWorkingDay(newStart, currentCalendar, currentTimeZone);
+            }
+            const duration = diffInWorkingDays(
+              state.originalStart,
+              state.originalEnd,
+              currentCalendar,
+              currentTimeZone
+            );
+            newEnd = addWorkingDays(newStart, duration, currentCalendar, currentTimeZone);
+          } else if (currentDateRange.hiddenIntervals?.length) {
+            // Compressed timeline - keep the shown length rather than stretching across breaks
+            const width =
+              dateToX(state.originalEnd, currentDateRange, currentChartWidth) -
+              dateToX(state.originalStart, currentDateRange, currentChartWidth);
+            newEnd = xToDate(
+              dateToX(newStart, currentDateRange, currentChartWidth) + width,
+              currentDateRange,
+              currentChartWidth
+            );
+          } else if (currentViewMode === 'hour') {
+            newEnd = new Date(newStart.getTime() + state.originalEnd.getTime() - state.originalStart.getTime());
+          } else {
+            // Calendar days, so a task spanning a DST change keeps its length
+            const duration = diffInDays(state.originalStart, state.originalEnd, currentTimeZone);
+            newEnd = addDays(newStart, duration, currentTimeZone);
+          }
           break;
         }
 
         case 'resize-left': {
           // Only change start date
           const newX = state.startTaskX + deltaX;
-          const snappedX = snapToGrid(newX, currentDateRange, currentChartWidth, currentViewMode);
+          const snappedX = snapToGrid(
+            newX,
+            currentDateRange,
+            currentChartWidth,
+            currentViewMode,
+            currentSnap,
+            currentFirstDayOfWeek,
+            currentTimeZone
+          );
           newStart = xToDate(snappedX, currentDateRange, currentChartWidth);
+          if (currentCalendar && !isWorkingDay(newStart, currentCalendar, currentTimeZone)) {
+            newStart = nextWorkingDay(newStart, currentCalendar, currentTimeZone);
+          }
           newEnd = state.originalEnd;
 
-          // Ensure start is before end (minimum 1 day)
+          // Ensure start is before end (minimum one snapping step in hour view, 1 day otherwise)
           if (newStart >= newEnd) {
-            newStart = addDays(newEnd, -1);
+            newStart =
+              currentViewMode === 'hour'
+                ? new Date(newEnd.getTime() - currentSnap * MS_PER_MINUTE)
+                : addDays(newEnd, -1, currentTimeZone);
           }
           break;
         }
@@ -156,13 +303,30 @@ export function useDrag({
           // Only change end date
           const newWidth = state.startTaskWidth + deltaX;
           const newEndX = state.startTaskX + newWidth;
-          const snappedEndX = snapToGrid(newEndX, currentDateRange, currentChartWidth, currentViewMode);
+          const snappedEndX = snapToGrid(
+            newEndX,
+            currentDateRange,
+            currentChartWidth,
+            currentViewMode,
+            currentSnap,
+            currentFirstDayOfWeek,
+            currentTimeZone
+          );
           newStart = state.originalStart;
           newEnd = xToDate(snappedEndX, currentDateRange, currentChartWidth);
 
-          // Ensure end is after start (minimum 1 day)
+          // End right after the last working day covered, as when moving
+          if (currentCalendar) {
+            const duration = diffInWorkingDays(newStart, newEnd, currentCalendar, currentTimeZone);
+            newEnd = addWorkingDays(newStart, duration, currentCalendar, currentTimeZone);
+          }
+
+          // Ensure end is after start (minimum one snapping step in hour view, 1 day otherwise)
           if (newEnd <= newStart) {
-            newEnd = addDays(newStart, 1);
+            newEnd =
+              currentViewMode === 'hour'
+                ? new Date(newStart.getTime() + currentSnap * MS_PER_MINUTE)
+                : addDuration(newStart, 1, currentCalendar, currentTimeZone);
           }
           break;
         }
@@ -171,15 +335,35 @@ export function useDrag({
           return;
       }
 
-      // Normalize to start of day
-      newStart = startOfDay(newStart);
-      newEnd = startOfDay(newEnd);
+      // Normalize to start of day (hour view keeps the snapped time of day)
+      if (currentViewMode !== 'hour') {
+        newStart = startOfDay(newStart, currentTimeZone);
+        newEnd = startOfDay(newEnd, currentTimeZone);
+      }
+
+      // Keep the task within its constraint
+      if (constraintModeRef.current === 'respect') {
+        ({ start: newStart, end: newEnd } = applyConstraint(
+          state.task,
+          newStart,
+          newEnd,
+          state.mode,
+          currentCalendar,
+          currentTimeZone,
+          state.lateStart
+        ));
+      }
+
+      // Cascade to successors
+      const changes = state.propagate(state.task.id, newStart, newEnd, autoScheduleRef.current);
 
       // Update both refs and state
       previewStartRef.current = newStart;
       previewEndRef.current = newEnd;
+      cascadeRef.current = changes;
       setPreviewStart(newStart);
       setPreviewEnd(newEnd);
+      setCascadePreview(changes);
 
       onDragMoveRef.current?.(state.task, newStart, newEnd);
     };
@@ -207,14 +391,17 @@ export function useDrag({
         currentPreviewStart || state.originalStart,
         currentPreviewEnd || state.originalEnd,
         !moved,
-        isResize
+        isResize,
+        moved ? cascadeRef.current : new Map()
       );
 
       // Clear state
       previewStartRef.current = null;
       previewEndRef.current = null;
+      cascadeRef.current = new Map();
       setPreviewStart(null);
       setPreviewEnd(null);
+      setCascadePreview(new Map());
       dragState.current = null;
     };
 
@@ -228,10 +415,12 @@ export function useDrag({
         setIsDragging(false);
         previewStartRef.current = null;
         previewEndRef.current = null;
+        cascadeRef.current = new Map();
         setPreviewStart(null);
         setPreviewEnd(null);
+        setCascadePreview(new Map());
 
-        onDragEndRef.current?.(state.task, state.originalStart, state.originalEnd, true, isResize);
+        onDragEndRef.current?.(state.task, state.originalStart, state.originalEnd, true, isResize, new Map());
         dragState.current = null;
       }
     };
@@ -266,6 +455,7 @@ export function useDrag({
     draggedTask: isDragging && dragState.current ? dragState.current.task : null,
     previewStart,
     previewEnd,
+    cascadePreview,
     handleMouseDown,
     getDragPreviewX,
     getDragPreviewWidth,
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { clampPixelsPerDay, MIN_PIXELS_PER_DAY, MAX_PIXELS_PER_DAY } from './useZoom';
+
+describe('clampPixelsPerDay', () => {
+  it('keeps scales within the default limits', () => {
+    expect(clampPixelsPerDay(0.01)).toBe(MIN_PIXELS_PER_DAY);
+    expect(clampPixelsPerDay(5000)).toBe(MAX_PIXELS_PER_DAY);
+    expect(clampPixelsPerDay(40)).toBe(40);
+  });
+
+  it('uses custom limits', () => {
+    expect(clampPixelsPerDay(1, 2, 100)).toBe(2);
+    expect(clampPixelsPerDay(150, 2, 100)).toBe(100);
+  });
+});
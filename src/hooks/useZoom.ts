@@ -0,0 +1,132 @@
+/**
+ * useZoom - Hook for Ctrl+wheel and pinch zooming of the timeline
+ */
+
+import { useRef, useEffect } from 'react';
+
+// Wheel delta to zoom factor (exponential so zooming in and out is symmetric)
+const WHEEL_SENSITIVITY = 0.002;
+
+// Default scale limits
+export const MIN_PIXELS_PER_DAY = 0.1;
+export const MAX_PIXELS_PER_DAY = 2000;
+
+/**
+ * Keep a scale within the zoom limits
+ */
+export function clampPixelsPerDay(
+  pixelsPerDay: number,
+  min = MIN_PIXELS_PER_DAY,
+  max = MAX_PIXELS_PER_DAY
+): number {
+  return Math.min(max, Math.max(min, pixelsPerDay));
+}
+
+interface UseZoomOptions {
+  /** Element that receives wheel and touch events */
+  targetRef: React.RefObject<HTMLElement>;
+  /** Current scale */
+  pixelsPerDay: number;
+  /** Smallest allowed scale (default 0.1) */
+  minPixelsPerDay?: number;
+  /** Largest allowed scale (default 2000) */
+  maxPixelsPerDay?: number;
+  enabled?: boolean;
+  /** Called with the new scale and the client X position the zoom is anchored at */
+  onZoom: (pixelsPerDay: number, anchorClientX: number) => void;
+}
+
+interface PinchState {
+  distance: number;
+  pixelsPerDay: number;
+}
+
+function touchDistance(touches: TouchList): number {
+  const dx = touches[0].clientX - touches[1].clientX;
+  const dy = touches[0].clientY - touches[1].clientY;
+  return Math.hypot(dx, dy);
+}
+
+function touchCenterX(touches: TouchList): number {
+  return (touches[0].clientX + touches[1].clientX) / 2;
+}
+
+export function useZoom({
+  targetRef,
+  pixelsPerDay,
+  minPixelsPerDay = MIN_PIXELS_PER_DAY,
+  maxPixelsPerDay = MAX_PIXELS_PER_DAY,
+  enabled = true,
+  onZoom,
+}: UseZoomOptions) {
+  const pinchRef = useRef<PinchState | null>(null);
+
+  // Use refs so listeners are only registered once
+  const pixelsPerDayRef = useRef(pixelsPerDay);
+  const limitsRef = useRef({ min: minPixelsPerDay, max: maxPixelsPerDay });
+  const onZoomRef = useRef(onZoom);
+
+  pixelsPerDayRef.current = pixelsPerDay;
+  limitsRef.current = { min: minPixelsPerDay, max: maxPixelsPerDay };
+  onZoomRef.current = onZoom;
+
+  useEffect(() => {
+    const target = targetRef.current;
+    if (!target || !enabled) return;
+
+    const zoomTo = (next: number, anchorClientX: number) => {
+      const { min, max } = limitsRef.current;
+      const clamped = clampPixelsPerDay(next, min, max);
+      if (clamped !== pixelsPerDayRef.current) {
+        pixelsPerDayRef.current = clamped;
+        onZoomRef.current(clamped, anchorClientX);
+      }
+    };
+
+    // Ctrl+wheel (trackpad pinch is reported the same way)
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      zoomTo(pixelsPerDayRef.current * Math.exp(-event.deltaY * WHEEL_SENSITIVITY), event.clientX);
+    };
+
+    // Two-finger pinch on touch screens
+    const handleTouchStart = (event: TouchEvent) => {
+      if (event.touches.length !== 2) return;
+      pinchRef.current = {
+        distance: touchDistance(event.touches),
+        pixelsPerDay: pixelsPerDayRef.current,
+      };
+    };
+
+    const handleTouchMove = (event: TouchEvent) => {
+      const pinch = pinchRef.current;
+      if (!pinch || event.touches.length !== 2 || pinch.distance === 0) return;
+      event.preventDefault();
+      zoomTo(
+        (pinch.pixelsPerDay * touchDistance(event.touches)) / pinch.distance,
+        touchCenterX(event.touches)
+      );
+    };
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      if (event.touches.length < 2) pinchRef.current = null;
+    };
+
+    target.addEventListener('wheel', handleWheel, { passive: false });
+    target.addEventListener('touchstart', handleTouchStart);
+    target.addEventListener('touchmove', handleTouchMove, { passive: false });
+    target.addEventListener('touchend', handleTouchEnd);
+    target.addEventListener('touchcancel', handleTouchEnd);
+
+    return () => {
+      target.removeEventListener('wheel', handleWheel);
+      target.removeEventListener('touchstart', handleTouchStart);
+      target.removeEventListener('touchmove', handleTouchMove);
+      target.removeEventListener('touchend', handleTouchEnd);
+      target.removeEventListener('touchcancel', handleTouchEnd);
+    };
+  }, [targetRef, enabled]);
+}
+
+export default useZoom;
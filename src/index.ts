@@ -44,32 +44,51 @@ export {
   GanttTaskBars,
   GanttTaskList,
   GanttDependencies,
+  GanttMarkers,
+  GanttMiniMap,
   GanttTooltip,
 } from './components';
 
 // Hooks
-export { useDrag, useScroll } from './hooks';
+export { useDrag, useScroll, useZoom } from './hooks';
 
 // Utilities
 export {
   // Date utilities
+  startOfHour,
   startOfDay,
   endOfDay,
   startOfWeek,
   startOfMonth,
+  startOfQuarter,
+  startOfYear,
   endOfMonth,
+  addHours,
   addDays,
   addWeeks,
   addMonths,
   diffInDays,
+  roundToMinutes,
   isWeekend,
   isSameDay,
   isToday,
+  getQuarter,
+  getDaysLate,
   formatDate,
   formatDateCompact,
   calculateDateRange,
+  extendDateRange,
   generateDateGrid,
   getColumnWidth,
+  getPixelsPerDay,
+  getViewModeForScale,
+
+  // Time zone utilities
+  getZonedParts,
+  fromZonedParts,
+  toWallTime,
+  fromWallTime,
+  getTimeZoneOffset,
 
   // Position utilities
   dateToX,
@@ -77,10 +96,67 @@ export {
   calculateBarWidth,
   calculateChartWidth,
   computeTaskPositions,
+  rollupGroupTasks,
   getRowY,
   getTaskBarY,
   getBaselineBarY,
   getBarDimensions,
+
+  // Calendar utilities
+  defaultCalendar,
+  isWorkingDay,
+  isWorkingHour,
+  isHoliday,
+  nextWorkingDay,
+  addWorkingDays,
+  diffInWorkingDays,
+  getNonWorkingIntervals,
+  getDuration,
+  addDuration,
+  mergeCalendars,
+  getTaskCalendar,
+
+  // Constraint utilities
+  constraintLabels,
+  getConstraintViolation,
+  applyConstraint,
+  isDateConstraint,
+
+  // Column factories
+  createDefaultColumns,
+  createResourceColumn,
+  createEarnedValueColumns,
+
+  // Earned value utilities
+  computeEarnedValue,
+  computeTaskEarnedValue,
+
+  // Scheduling utilities
+  computeCriticalPath,
+  propagateDateChange,
+  createDateChangePropagator,
+  collectDependencies,
+  getDependencyId,
+  validateSchedule,
+
+  // Resource leveling
+  levelResources,
+  findOverallocations,
+
+  // Timescale utilities
+  generateTimescaleCells,
+  formatTimescaleLabel,
+  getDefaultTimescale,
+  startOfUnit,
+  addUnits,
+
+  // Fiscal calendar
+  getFiscalYear,
+  getFiscalYearStart,
+  getFiscalPeriods,
+  getFiscalPeriod,
+  getFiscalUnitRange,
+  formatFiscalLabel,
 } from './utils';
 
 // Theme utilities
@@ -92,28 +168,65 @@ export type {
   ViewMode,
   TaskType,
   DependencyType,
+  ConstraintType,
 
   // Task and dependency
   GanttTask,
   GanttDependency,
   TaskStyles,
 
+  // Calendar
+  GanttCalendar,
+  CalendarException,
+  FiscalCalendar,
+  FiscalPeriodPattern,
+
+  // Resources
+  GanttResource,
+  GanttAssignment,
+
+  // Scheduling
+  TaskScheduleInfo,
+  CriticalPathResult,
+  AutoScheduleMode,
+  TaskDateRange,
+  ConstraintViolation,
+  ScheduleDiagnostic,
+  ScheduleDiagnosticCode,
+  EarnedValueMetrics,
+  ResourceOverallocation,
+  LevelingResult,
+
+  // Markers and time ranges
+  GanttMarker,
+  MarkerLineStyle,
+  GanttTimeRange,
+  TimeRangePattern,
+
   // Column definition
   GanttColumn,
 
   // Events
   TaskDateChangeEvent,
+  TasksDateChangeEvent,
   TaskProgressChangeEvent,
   TaskClickEvent,
   TaskDoubleClickEvent,
   GanttEventHandlers,
 
+  // Timescale
+  TimescaleUnit,
+  TimescaleTier,
+  TimescaleCell,
+
   // Configuration
   GanttConfig,
   GanttTheme,
 
   // Component props
   GanttProps,
+  GanttHandle,
+  ScrollAlign,
 
   // Internal types (for advanced usage)
   ComputedTask,
@@ -123,3 +236,7 @@ export type {
 
 // Re-export BarDimensions from position utils
 export type { BarDimensions } from './utils/position';
+export type { ScheduleOptions } from './utils/schedule';
+export type { EarnedValueOptions } from './utils/earnedValue';
+export type { FiscalPeriod, FiscalUnit } from './utils/fiscal';
+export type { ZonedParts, ZonedDateParts } from './utils/timezone';
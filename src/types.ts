@@ -9,13 +9,22 @@
 /**
  * View mode for the Gantt chart timeline
  */
-export type ViewMode = 'day' | 'week' | 'month';
+export type ViewMode = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
 
 /**
  * Task type - determines rendering style
  */
 export type TaskType = 'task' | 'milestone' | 'group';
 
+/**
+ * Scheduling constraint on a task
+ * - `ASAP` / `ALAP`: as soon / as late as possible (no date)
+ * - `SNET` / `SNLT`: start no earlier / no later than
+ * - `FNET` / `FNLT`: finish no earlier / no later than
+ * - `MSO` / `MFO`: must start / must finish on
+ */
+export type ConstraintType = 'ASAP' | 'ALAP' | 'SNET' | 'SNLT' | 'FNET' | 'FNLT' | 'MSO' | 'MFO';
+
 /**
  * Dependency type between tasks
  */
@@ -82,6 +91,33 @@ export interface GanttTask {
   /** Custom styles */
   styles?: TaskStyles;
 
+  /** Resources assigned to this task */
+  assignments?: GanttAssignment[];
+
+  /** Scheduling constraint */
+  constraintType?: ConstraintType;
+
+  /** Date the constraint refers to (required for all but ASAP/ALAP) */
+  constraintDate?: Date;
+
+  /**
+   * Contractual deadline, tracked separately from the planned end
+   * A marker is drawn in the row; bars ending after it render as overdue
+   */
+  deadline?: Date;
+
+  /**
+   * Budget at completion for earned value metrics
+   * Defaults to the planned duration in days
+   */
+  budget?: number;
+
+  /**
+   * Leveling priority - higher values are placed first and delayed last
+   * (default 500)
+   */
+  priority?: number;
+
   /** Any additional data */
   payload?: Record<string, unknown>;
 }
@@ -121,6 +157,310 @@ export interface GanttDependency {
   lag?: number;
 }
 
+// ============================================================================
+// Calendar
+// ============================================================================
+
+/**
+ * Non-working period in a calendar (inclusive, by day)
+ */
+export interface CalendarException {
+  start: Date;
+  end: Date;
+  /** Optional description (e.g. "Christmas shutdown") */
+  name?: string;
+}
+
+/**
+ * Working-time calendar
+ * Durations, lag and drag snapping are measured in its working days
+ */
+export interface GanttCalendar {
+  /** Working weekdays (0 = Sunday ... 6 = Saturday), default Monday-Friday */
+  workingDays?: number[];
+
+  /** Non-working dates - single days or inclusive ranges */
+  holidays?: Array<Date | CalendarException>;
+
+  /** Working hours of a working day (0-24), default 9 to 17 */
+  workingHours?: {
+    start: number;
+    end: number;
+  };
+}
+
+/**
+ * Period pattern of a fiscal year
+ * 'calendar' uses calendar months; the others are weeks per period in each quarter
+ */
+export type FiscalPeriodPattern = 'calendar' | '4-4-5' | '4-5-4' | '5-4-4';
+
+/**
+ * Fiscal year definition used by the fiscal timescale units
+ */
+export interface FiscalCalendar {
+  /** Month the fiscal year starts in (0 = January ... 11 = December), default 0 */
+  startMonth?: number;
+
+  /**
+   * Period pattern (default 'calendar')
+   * Week-based years start on the first day of the week containing the 1st
+   * of `startMonth`, so some years have 53 weeks
+   */
+  pattern?: FiscalPeriodPattern;
+
+  /** Name fiscal years after the calendar year they end in (default true) */
+  nameByEndYear?: boolean;
+}
+
+// ============================================================================
+// Resources
+// ============================================================================
+
+/**
+ * A person, team or machine that can be assigned to tasks
+ */
+export interface GanttResource {
+  /** Unique identifier */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /**
+   * Personal calendar (part-time days, leave)
+   * Applied on top of the project calendar for assigned tasks
+   */
+  calendar?: GanttCalendar;
+
+  /** Units available per working day (1 = one full-time person), default 1 */
+  capacity?: number;
+}
+
+/**
+ * Assignment of a resource to a task
+ */
+export interface GanttAssignment {
+  /** Assigned resource ID */
+  resourceId: string;
+
+  /** Units of the resource used by the task (1 = 100%), default 1 */
+  units?: number;
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * How successors react when a task is moved or resized
+ * - `none`: successors stay where they are
+ * - `push`: successors move later only when a link would be broken
+ * - `strict`: successors are pushed or pulled to stay tight to their links
+ */
+export type AutoScheduleMode = 'none' | 'push' | 'strict';
+
+/**
+ * Start and end dates of a task
+ */
+export interface TaskDateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Scheduling data derived by the critical path pass
+ */
+export interface TaskScheduleInfo {
+  /** Earliest date the task can start */
+  earlyStart: Date;
+
+  /** Earliest date the task can finish */
+  earlyFinish: Date;
+
+  /** Latest date the task can start without delaying the project */
+  lateStart: Date;
+
+  /** Latest date the task can finish without delaying the project */
+  lateFinish: Date;
+
+  /** Total float in days (delay possible without moving the project finish) */
+  totalFloat: number;
+
+  /** Free float in days (delay possible without moving any successor) */
+  freeFloat: number;
+
+  /** Whether the task has zero total float */
+  isCritical: boolean;
+}
+
+/**
+ * Result of the critical path computation
+ */
+export interface CriticalPathResult {
+  /** Schedule info keyed by task ID (tasks in a dependency cycle are omitted) */
+  tasks: Map<string, TaskScheduleInfo>;
+
+  /** IDs (`fromId-toId`) of dependencies that drive the critical path */
+  criticalDependencyIds: Set<string>;
+
+  /** Earliest task start */
+  projectStart: Date;
+
+  /** Latest early finish */
+  projectFinish: Date;
+}
+
+/**
+ * A task's dates breaking its scheduling constraint
+ */
+export interface ConstraintViolation {
+  taskId: string;
+  type: ConstraintType;
+  /** Constraint date */
+  date: Date;
+  /** How far the constrained edge is from the constraint date, in days */
+  days: number;
+  /** Description, e.g. "Start no earlier than Jan 5" */
+  message: string;
+}
+
+/**
+ * Kind of problem found by `validateSchedule`
+ */
+export type ScheduleDiagnosticCode =
+  | 'cycle'                 // Tasks depend on each other in a loop
+  | 'missing-task'          // Link refers to a task that does not exist
+  | 'self-dependency'       // Task depends on itself
+  | 'parent-child'          // Link between a group and its own descendant
+  | 'duplicate-dependency'; // Same link defined more than once
+
+/**
+ * A problem found in the dependency network
+ */
+export interface ScheduleDiagnostic {
+  code: ScheduleDiagnosticCode;
+  severity: 'error' | 'warning';
+  /** Human-readable description */
+  message: string;
+  /** Existing tasks involved */
+  taskIds: string[];
+  /** Offending dependencies (`fromId-toId`) */
+  dependencyIds: string[];
+}
+
+/**
+ * A day on which a resource is assigned beyond its capacity
+ */
+export interface ResourceOverallocation {
+  resourceId: string;
+  /** Start of the overloaded day */
+  date: Date;
+  /** Units assigned that day */
+  load: number;
+  /** Units available that day */
+  capacity: number;
+  /** Tasks contributing to the load */
+  taskIds: string[];
+}
+
+/**
+ * Result of `levelResources`
+ */
+export interface LevelingResult {
+  /** New dates of every task that moved */
+  changes: Map<string, TaskDateRange>;
+
+  /** Over-allocations that could not be resolved within float */
+  overallocations: ResourceOverallocation[];
+}
+
+/**
+ * Earned value metrics of a task as of a status date
+ */
+export interface EarnedValueMetrics {
+  /** Budget at completion (BAC) */
+  budget: number;
+
+  /** Planned value - budgeted cost of work scheduled by the status date */
+  plannedValue: number;
+
+  /** Earned value - budgeted cost of work performed (budget x progress) */
+  earnedValue: number;
+
+  /** Schedule variance (EV - PV); negative when behind schedule */
+  scheduleVariance: number;
+
+  /** Schedule performance index (EV / PV); null before any work is planned */
+  spi: number | null;
+
+  /** Days the current end is later than the baseline end (null without a baseline) */
+  finishVariance: number | null;
+}
+
+// ============================================================================
+// Markers and Time Ranges
+// ============================================================================
+
+/**
+ * Line style of a time marker
+ */
+export type MarkerLineStyle = 'solid' | 'dashed' | 'dotted';
+
+/**
+ * Labelled vertical line at a date (release, go-live, code freeze, ...)
+ */
+export interface GanttMarker {
+  /** Unique identifier */
+  id: string;
+
+  /** Date the line is drawn at */
+  date: Date;
+
+  /** Label shown in the timeline header */
+  label?: string;
+
+  /** Line and label color (default theme marker color) */
+  color?: string;
+
+  /** Line style (default 'dashed') */
+  lineStyle?: MarkerLineStyle;
+
+  /** Called when the line or its label is clicked */
+  onClick?: (marker: GanttMarker, event: React.MouseEvent) => void;
+}
+
+/**
+ * Fill pattern of a time range band
+ */
+export type TimeRangePattern = 'solid' | 'hatched' | 'dotted';
+
+/**
+ * Shaded band between two dates (sprint, change freeze, shutdown, ...)
+ */
+export interface GanttTimeRange {
+  /** Unique identifier */
+  id: string;
+
+  /** Start of the band */
+  start: Date;
+
+  /** End of the band */
+  end: Date;
+
+  /** Name of the band */
+  label?: string;
+
+  /** Band color (default theme time range color) */
+  color?: string;
+
+  /** Fill pattern (default 'solid') */
+  pattern?: TimeRangePattern;
+
+  /** Show the band with its name in a row at the top of the timeline header */
+  showInHeader?: boolean;
+}
+
 // ============================================================================
 // Column Definition (for task list)
 // ============================================================================
@@ -164,6 +504,22 @@ export interface TaskDateChangeEvent {
   newEnd: Date;
   /** Whether this was a resize (true) or move (false) */
   isResize: boolean;
+  /** Set when the new dates break the task's constraint (`constraintMode: 'flag'`) */
+  constraintViolation?: ConstraintViolation;
+}
+
+/**
+ * Batched date change event - every task moved by one drag
+ */
+export interface TasksDateChangeEvent {
+  /** The dragged task first, then successors moved by auto-scheduling */
+  changes: Array<{
+    task: GanttTask;
+    newStart: Date;
+    newEnd: Date;
+  }>;
+  /** Whether the dragged task was resized (true) or moved (false) */
+  isResize: boolean;
 }
 
 /**
@@ -197,6 +553,9 @@ export interface GanttEventHandlers {
   /** Called when task dates change (drag or resize) */
   onTaskDateChange?: (event: TaskDateChangeEvent) => void | Promise<void>;
 
+  /** Called once per drag with every task that moved (including auto-scheduled successors) */
+  onTasksDateChange?: (event: TasksDateChangeEvent) => void | Promise<void>;
+
   /** Called when task progress changes */
   onTaskProgressChange?: (event: TaskProgressChangeEvent) => void | Promise<void>;
 
@@ -211,6 +570,65 @@ export interface GanttEventHandlers {
 
   /** Called when view mode changes */
   onViewModeChange?: (viewMode: ViewMode) => void;
+
+  /** Called when the timeline is zoomed (Ctrl+wheel or pinch) with the new scale */
+  onZoomChange?: (pixelsPerDay: number) => void;
+
+  /** Called when the dates shown in the chart viewport change (scroll, zoom, range growth) */
+  onVisibleRangeChange?: (range: { start: Date; end: Date }) => void;
+
+  /** Called when tasks or dependencies change and the dependency network has problems */
+  onValidationError?: (diagnostics: ScheduleDiagnostic[]) => void;
+}
+
+// ============================================================================
+// Timescale
+// ============================================================================
+
+/**
+ * Calendar unit of a timescale tier
+ * The `fiscal-*` units follow the configured `fiscalCalendar`
+ */
+export type TimescaleUnit =
+  | 'hour'
+  | 'day'
+  | 'week'
+  | 'month'
+  | 'quarter'
+  | 'year'
+  | 'decade'
+  | 'fiscal-period'
+  | 'fiscal-quarter'
+  | 'fiscal-year';
+
+/**
+ * A cell of a timescale tier, in header coordinates
+ */
+export interface TimescaleCell {
+  unit: TimescaleUnit;
+  start: Date;
+  end: Date;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One header row of the timeline
+ */
+export interface TimescaleTier {
+  /** Unit each cell spans (`week` cells are labelled with ISO week numbers) */
+  unit: TimescaleUnit;
+
+  /**
+   * Cell label (default depends on the unit, e.g. "Q3", "W12", "2024", "FY27 Q1")
+   * `timeZone` is the chart's `timeZone` config, if any
+   */
+  format?: (date: Date, locale: string, timeZone?: string) => string;
+
+  /** Custom cell renderer - returns SVG content drawn in place of the label */
+  renderCell?: (cell: TimescaleCell) => React.ReactNode;
 }
 
 // ============================================================================
@@ -242,12 +660,78 @@ export interface GanttConfig {
   /** Whether to show dependency arrows */
   showDependencies?: boolean;
 
+  /**
+   * Derive group start/end from the earliest child start and latest child end,
+   * and group progress from children weighted by duration (also live while dragging)
+   */
+  rollupGroups?: boolean;
+
+  /**
+   * Derive the critical path from dependencies instead of using `task.isCritical`
+   * Critical bars and the arrows driving them are highlighted
+   */
+  autoCriticalPath?: boolean;
+
+  /**
+   * Draw a slack bar from each non-critical task's end to its late finish
+   * The schedule is computed from dependencies even without `autoCriticalPath`
+   */
+  showSlack?: boolean;
+
+  /**
+   * Header rows from top to bottom, e.g. year / quarter / week / day
+   * Defaults to tiers matching the view mode
+   */
+  timescale?: TimescaleTier[];
+
+  /**
+   * Fiscal year used by the `fiscal-*` timescale units
+   * When set, quarter and year views group the timeline by fiscal quarters and years
+   */
+  fiscalCalendar?: FiscalCalendar;
+
+  /**
+   * Compress the timeline by skipping non-working time (per `calendar`)
+   * Hour view skips nights and non-working days; other views skip non-working days
+   */
+  hideNonWorkingTime?: boolean;
+
   /** Whether to show today marker */
   showTodayMarker?: boolean;
 
-  /** Whether to show weekends with different background */
+  /** Whether to shade non-working days (weekends and holidays) */
   showWeekends?: boolean;
 
+  /**
+   * Working-time calendar for durations, lag and drag snapping
+   * Without one, every calendar day counts as working time
+   */
+  calendar?: GanttCalendar;
+
+  /**
+   * Preview resource leveling: bars show the leveled dates and the current
+   * dates are drawn as the baseline (dragging is disabled meanwhile)
+   */
+  levelingPreview?: boolean;
+
+  /** Drag snapping step in hour view, in minutes (default 60; 15 snaps to quarter-hours) */
+  snapInterval?: number;
+
+  /**
+   * Continuous zoom scale in pixels per day
+   * Overrides the view mode's column width; header tiers follow the scale
+   */
+  pixelsPerDay?: number;
+
+  /** Whether Ctrl+wheel and pinch gestures zoom the timeline */
+  allowZoom?: boolean;
+
+  /** Grow the date range by a screen's worth of time whenever a horizontal scroll nears either edge */
+  infiniteScroll?: boolean;
+
+  /** Show an overview strip of every row below the chart, with a draggable viewport */
+  showMiniMap?: boolean;
+
   /** Whether tasks can be dragged */
   allowDrag?: boolean;
 
@@ -257,12 +741,34 @@ export interface GanttConfig {
   /** Whether progress can be changed by dragging */
   allowProgressChange?: boolean;
 
+  /** Move successors along with a dragged task (default: 'none') */
+  autoSchedule?: AutoScheduleMode;
+
+  /**
+   * How drags treat task constraints
+   * - `respect`: dates are clamped to satisfy the constraint (default)
+   * - `flag`: any date is accepted and violations are highlighted
+   */
+  constraintMode?: 'respect' | 'flag';
+
+  /** Status date for earned value metrics (default: today) */
+  statusDate?: Date;
+
+  /** Add planned value, earned value, schedule variance and SPI columns to the task list */
+  showEarnedValue?: boolean;
+
   /** Locale for date formatting */
   locale?: string;
 
   /** First day of week (0 = Sunday, 1 = Monday) */
   firstDayOfWeek?: 0 | 1;
 
+  /**
+   * IANA time zone (e.g. 'Europe/Berlin') or 'UTC' that days, hours and
+   * header labels are computed in - default is the browser's local time zone
+   */
+  timeZone?: string;
+
   /** Custom date range (if not provided, calculated from tasks) */
   dateRange?: {
     start: Date;
@@ -317,13 +823,34 @@ export interface GanttTheme {
   /** Milestone color */
   milestone?: string;
 
+  /** Constraint glyph color */
+  constraint?: string;
+
+  /** Violation color (broken constraints and invalid dependencies) */
+  violation?: string;
+
   /** Group/summary bar color */
   group?: string;
 
+  /** Deadline marker color */
+  deadline?: string;
+
+  /** Overdue task bar color (ends after its deadline) */
+  overdue?: string;
+
+  /** Slack (total float) bar color */
+  slack?: string;
+
   /** Today marker color */
   todayMarker?: string;
 
-  /** Weekend background color */
+  /** Default color of custom time markers */
+  marker?: string;
+
+  /** Default color of time range bands */
+  timeRange?: string;
+
+  /** Non-working day (weekend/holiday) background color */
   weekend?: string;
 
   /** Dependency arrow color */
@@ -350,6 +877,15 @@ export interface GanttProps extends GanttEventHandlers {
   /** Dependencies between tasks */
   dependencies?: GanttDependency[];
 
+  /** Resources that tasks can be assigned to (adds a resource column to the task list) */
+  resources?: GanttResource[];
+
+  /** Labelled vertical lines at dates (releases, go-lives, freezes) */
+  markers?: GanttMarker[];
+
+  /** Shaded bands between dates behind the bars (sprints, freezes, shutdowns) */
+  timeRanges?: GanttTimeRange[];
+
   /** Column definitions for task list */
   columns?: GanttColumn[];
 
@@ -378,6 +914,40 @@ export interface GanttProps extends GanttEventHandlers {
   renderTaskBar?: (task: GanttTask, defaultBar: React.ReactNode) => React.ReactNode;
 }
 
+/**
+ * Scroll alignment for imperative scrolling
+ */
+export type ScrollAlign = 'start' | 'center';
+
+/**
+ * Imperative API exposed through the Gantt component's ref
+ */
+export interface GanttHandle {
+  /** Scroll a task into view, expanding collapsed groups above it (centered by default) */
+  scrollToTask: (taskId: string, options?: { align?: ScrollAlign }) => void;
+
+  /** Scroll the timeline to a date (at the left edge by default), growing the range to include it */
+  scrollToDate: (date: Date, options?: { align?: ScrollAlign }) => void;
+
+  /** Zoom to a pixels-per-day scale, keeping the date at the viewport center in place */
+  zoomTo: (pixelsPerDay: number) => void;
+
+  /** Expand every group */
+  expandAll: () => void;
+
+  /** Collapse every task that has children */
+  collapseAll: () => void;
+
+  /** Select a task (null clears the selection) */
+  select: (taskId: string | null) => void;
+
+  /** Dates currently in the viewport */
+  getVisibleRange: () => { start: Date; end: Date } | null;
+
+  /** Timeline (header and chart body) as standalone SVG markup */
+  exportSvg: () => string;
+}
+
 // ============================================================================
 // Internal Types (exported for advanced usage)
 // ============================================================================
@@ -409,6 +979,27 @@ export interface ComputedTask extends GanttTask {
 
   /** Whether this task is visible (not hidden by collapsed parent) */
   isVisible: boolean;
+
+  /** Critical path data (when the schedule has been computed) */
+  schedule?: TaskScheduleInfo;
+
+  /** X position of the constraint date (dated constraints only) */
+  constraintX?: number;
+
+  /** Set when the task's dates break its constraint */
+  constraintViolation?: ConstraintViolation | null;
+
+  /** X position of the deadline (if deadline exists) */
+  deadlineX?: number;
+
+  /** Whether the task ends after its deadline */
+  isOverdue?: boolean;
+
+  /** X position where the slack bar starts (task end; with `showSlack` only) */
+  slackX?: number;
+
+  /** Slack bar width, from the task end to its late finish */
+  slackWidth?: number;
 }
 
 /**
@@ -419,6 +1010,11 @@ export interface DateRange {
   end: Date;
   /** Total days in range */
   totalDays: number;
+  /**
+   * Intervals skipped by the timeline (sorted, non-overlapping)
+   * `dateToX` and `xToDate` map across them as if they were not there
+   */
+  hiddenIntervals?: Array<{ start: Date; end: Date }>;
 }
 
 /**
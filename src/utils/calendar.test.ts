@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { getDuration, addDuration, createDurationIndex } from './calendar';
+import { addDays, diffInDays } from './date';
+import { fromZonedParts, getZonedParts } from './timezone';
+
+const ZONES = ['Europe/Berlin', 'America/New_York'];
+
+// Five-day tasks whose span contains each zone's spring-forward and fall-back day
+const DST_TASKS: Record<string, Array<[number, number]>> = {
+  'Europe/Berlin': [
+    [2, 29],
+    [9, 25],
+  ],
+  'America/New_York': [
+    [2, 8],
+    [10, 1],
+  ],
+};
+
+describe('getDuration / addDuration without a calendar', () => {
+  it('keeps a 5-day task across a DST change its length when moved a day either way', () => {
+    for (const zone of ZONES) {
+      for (const [month, day] of DST_TASKS[zone]) {
+        const start = fromZonedParts({ year: 2024, month, day }, zone);
+        const end = addDuration(start, 5, undefined, zone);
+        expect(getDuration(start, end, undefined, zone)).toBe(5);
+
+        for (const offset of [-1, 1]) {
+          const movedStart = addDays(start, offset, zone);
+          const movedEnd = addDuration(movedStart, getDuration(start, end, undefined, zone), undefined, zone);
+          expect(getDuration(movedStart, movedEnd, undefined, zone)).toBe(5);
+          expect(getZonedParts(movedStart, zone).hour).toBe(0);
+          expect(getZonedParts(movedEnd, zone).hour).toBe(0);
+        }
+      }
+    }
+  });
+
+  it('round-trips addDays and diffInDays across a DST change', () => {
+    for (const zone of ZONES) {
+      for (const [month, day] of DST_TASKS[zone]) {
+        const start = fromZonedParts({ year: 2024, month, day }, zone);
+        const end = addDuration(start, 5, undefined, zone);
+        expect(addDays(start, diffInDays(start, end, zone), zone)).toEqual(end);
+      }
+    }
+  });
+});
+
+describe('getDuration / addDuration with a calendar', () => {
+  it('counts working days in the zone', () => {
+    // Friday 1 November to Friday 8 November in New York, across the fall-back Sunday
+    const zone = 'America/New_York';
+    const calendar = { workingDays: [1, 2, 3, 4, 5] };
+    const start = fromZonedParts({ year: 2024, month: 10, day: 1 }, zone);
+    const end = fromZonedParts({ year: 2024, month: 10, day: 8 }, zone);
+    expect(getDuration(start, end, calendar, zone)).toBe(5);
+    expect(addDuration(start, 5, calendar, zone)).toEqual(end);
+  });
+});
+
+describe('createDurationIndex', () => {
+  it('matches getDuration and addDuration', () => {
+    const calendar = {
+      workingDays: [1, 2, 3, 4, 5],
+      holidays: [new Date('2024-03-29T12:00:00Z'), { start: new Date('2024-12-24'), end: new Date('2024-12-26') }],
+    };
+
+    for (const zone of [...ZONES, undefined]) {
+      const index = createDurationIndex(calendar, zone);
+      const origin = fromZonedParts({ year: 2024, month: 5, day: 3, hour: 10 }, zone);
+
+      // Dates before and after the origin, at midnight and part-way through the day
+      for (let i = -200; i <= 200; i += 23) {
+        const date = addDays(origin, i + (i % 2 === 0 ? 0.25 : 0), zone);
+        expect(index.getDuration(origin, date)).toBeCloseTo(getDuration(origin, date, calendar, zone), 9);
+        expect(index.getDuration(date, origin)).toBeCloseTo(getDuration(date, origin, calendar, zone), 9);
+        expect(index.addDuration(date, i / 3)).toEqual(addDuration(date, i / 3, calendar, zone));
+      }
+    }
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Working-time calendar utilities
+ *
+ * Durations and lag are measured in working days when a calendar is
+ * given, and in calendar days otherwise. Days are local days unless a
+ * time zone is passed.
+ */
+
+import type { GanttCalendar, GanttResource, GanttTask } from '../types';
+import { startOfDay, addDays, diffInDays, isSameDay } from './date';
+import { getZonedParts, fromZonedParts, toWallTime, fromWallTime } from './timezone';
+
+// Safety limit when searching for a working day (ten years)
+const MAX_DAY_SEARCH = 3660;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Default calendar - Monday to Friday, 9:00 to 17:00, no holidays
+ */
+export const defaultCalendar: Required<GanttCalendar> = {
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  workingHours: { start: 9, end: 17 },
+};
+
+/**
+ * Fill in calendar defaults
+ */
+export function resolveCalendar(calendar?: GanttCalendar): Required<GanttCalendar> {
+  if (!calendar) return defaultCalendar;
+  return { ...defaultCalendar, ...calendar };
+}
+
+/**
+ * Check if a date falls on a holiday of the calendar
+ */
+export function isHoliday(date: Date, calendar?: GanttCalendar, timeZone?: string): boolean {
+  const { holidays } = resolveCalendar(calendar);
+  const day = startOfDay(date, timeZone);
+
+  return holidays.some((holiday) => {
+    if (holiday instanceof Date) return isSameDay(holiday, date, timeZone);
+    return day >= startOfDay(holiday.start, timeZone) && day <= startOfDay(holiday.end, timeZone);
+  });
+}
+
+/**
+ * Check if a date is a working day (working weekday and not a holiday)
+ */
+export function isWorkingDay(date: Date, calendar?: GanttCalendar, timeZone?: string): boolean {
+  const { workingDays } = resolveCalendar(calendar);
+  return workingDays.includes(getZonedParts(date, timeZone).weekday) && !isHoliday(date, calendar, timeZone);
+}
+
+/**
+ * Check if a date falls within the calendar's working hours on a working day
+ */
+export function isWorkingHour(date: Date, calendar?: GanttCalendar, timeZone?: string): boolean {
+  const { workingHours } = resolveCalendar(calendar);
+  const hour = getZonedParts(date, timeZone).hour;
+  return isWorkingDay(date, calendar, timeZone) && hour >= workingHours.start && hour < workingHours.end;
+}
+
+/**
+ * Set a (possibly fractional) hour of the day on a date
+ */
+function atHour(date: Date, hour: number, timeZone?: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const minute = Math.round((hour % 1) * 60);
+  return fromZonedParts({ year, month, day, hour: Math.floor(hour), minute }, timeZone);
+}
+
+/**
+ * Get the non-working intervals within a range, merged and in order
+ * Whole non-working days are always included; with `unit: 'hour'` so are the
+ * hours outside each working day's working hours
+ */
+export function getNonWorkingIntervals(
+  start: Date,
+  end: Date,
+  calendar?: GanttCalendar,
+  unit: 'day' | 'hour' = 'day',
+  timeZone?: string
+): Array<{ start: Date; end: Date }> {
+  const { workingHours } = resolveCalendar(calendar);
+  const intervals: Array<{ start: Date; end: Date }> = [];
+
+  const add = (from: Date, to: Date) => {
+    const clippedFrom = from < start ? start : from;
+    const clippedTo = to > end ? end : to;
+    if (clippedTo <= clippedFrom) return;
+
+    const last = intervals[intervals.length - 1];
+    if (last && last.end.getTime() >= clippedFrom.getTime()) {
+      last.end = clippedTo;
+    } else {
+      intervals.push({ start: clippedFrom, end: clippedTo });
+    }
+  };
+
+  for (let day = startOfDay(start, timeZone); day < end; day = addDays(day, 1, timeZone)) {
+    const nextDay = addDays(day, 1, timeZone);
+    if (!isWorkingDay(day, calendar, timeZone)) {
+      add(day, nextDay);
+    } else if (unit === 'hour') {
+      add(day, atHour(day, workingHours.start, timeZone));
+      add(atHour(day, workingHours.end, timeZone), nextDay);
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Get the start of the first working day on or after a date
+ */
+export function nextWorkingDay(date: Date, calendar?: GanttCalendar, timeZone?: string): Date {
+  let current = startOfDay(date, timeZone);
+  for (let i = 0; i < MAX_DAY_SEARCH && !isWorkingDay(current, calendar, timeZone); i++) {
+    current = addDays(current, 1, timeZone);
+  }
+  return current;
+}
+
+/**
+ * Fraction of the day elapsed at a date (0 at midnight)
+ */
+function dayFraction(date: Date, timeZone?: string): number {
+  return diffInDays(startOfDay(date, timeZone), date, timeZone);
+}
+
+/**
+ * Add working days to a date (negative values move backwards)
+ *
+ * Days are counted half-open, so adding 1 working day to a Friday
+ * yields the following Saturday at the same time - the end of Friday.
+ */
+export function addWorkingDays(date: Date, days: number, calendar?: GanttCalendar, timeZone?: string): Date {
+  const whole = Math.trunc(days);
+  const fraction = days - whole;
+  let current = new Date(date);
+  let remaining = Math.abs(whole);
+
+  for (let i = 0; remaining > 0 && i < MAX_DAY_SEARCH * 10; i++) {
+    if (whole > 0) {
+      if (isWorkingDay(current, calendar, timeZone)) remaining--;
+      current = addDays(current, 1, timeZone);
+    } else {
+      current = addDays(current, -1, timeZone);
+      if (isWorkingDay(current, calendar, timeZone)) remaining--;
+    }
+  }
+
+  return addDays(current, fraction, timeZone);
+}
+
+/**
+ * Number of working days between two dates (negative if end is before start)
+ */
+export function diffInWorkingDays(start: Date, end: Date, calendar?: GanttCalendar, timeZone?: string): number {
+  if (end < start) return -diffInWorkingDays(end, start, calendar, timeZone);
+
+  const endDay = startOfDay(end, timeZone);
+  let current = startOfDay(start, timeZone);
+  let count = 0;
+
+  while (current < endDay) {
+    if (isWorkingDay(current, calendar, timeZone)) count++;
+    current = addDays(current, 1, timeZone);
+  }
+
+  if (isWorkingDay(end, calendar, timeZone)) count += dayFraction(end, timeZone);
+  if (isWorkingDay(start, calendar, timeZone)) count -= dayFraction(start, timeZone);
+
+  return count;
+}
+
+/**
+ * Duration between two dates in working days (with a calendar) or calendar days
+ */
+export function getDuration(start: Date, end: Date, calendar?: GanttCalendar, timeZone?: string): number {
+  if (calendar) return diffInWorkingDays(start, end, calendar, timeZone);
+  return diffInDays(start, end, timeZone);
+}
+
+/**
+ * Add a duration in working days (with a calendar) or calendar days
+ */
+export function addDuration(date: Date, days: number, calendar?: GanttCalendar, timeZone?: string): Date {
+  if (calendar) return addWorkingDays(date, days, calendar, timeZone);
+  return addDays(date, days, timeZone);
+}
+
+/**
+ * Duration math on a single calendar, for callers that measure many dates
+ */
+export interface DurationIndex {
+  /** Same as `getDuration` on the index's calendar and time zone */
+  getDuration: (start: Date, end: Date) => number;
+
+  /** Same as `addDuration` on the index's calendar and time zone */
+  addDuration: (date: Date, days: number) => Date;
+}
+
+/**
+ * Create a duration index for a calendar
+ *
+ * Each day's working flag is looked up once and working days are counted
+ * with running totals, so measuring a date far from another costs about
+ * the same as measuring a nearby one.
+ */
+export function createDurationIndex(calendar?: GanttCalendar, timeZone?: string): DurationIndex {
+  if (!calendar) {
+    return {
+      getDuration: (start, end) => diffInDays(start, end, timeZone),
+      addDuration: (date, days) => addDays(date, days, timeZone),
+    };
+  }
+
+  // Days are numbered by their wall-clock midnight (day 0 is Thursday 1 January 1970)
+  const dayOf = (date: Date) => Math.floor(toWallTime(date, timeZone) / MS_PER_DAY);
+  const { workingDays, holidays } = resolveCalendar(calendar);
+  const holidayDays = holidays.map((holiday) =>
+    holiday instanceof Date ? [dayOf(holiday), dayOf(holiday)] : [dayOf(holiday.start), dayOf(holiday.end)]
+  );
+  const isWorking = (day: number) =>
+    workingDays.includes((((day + 4) % 7) + 7) % 7) &&
+    !holidayDays.some(([start, end]) => day >= start && day <= end);
+
+  // counts[i] is the number of working days from `first` up to (not including) `first + i`
+  let first = 0;
+  let counts: number[] = [];
+
+  const cover = (day: number) => {
+    if (counts.length === 0) {
+      first = day;
+      counts = [0];
+    }
+    if (day < first) {
+      // Grow by at least the covered span so repeated steps back stay cheap
+      const extra = Math.max(first - day, counts.length);
+      const before = [0];
+      for (let d = first - extra; d < first; d++) before.push(before[before.length - 1] + (isWorking(d) ? 1 : 0));
+      const total = before.pop()!;
+      counts = before.concat(counts.map((count) => count + total));
+      first -= extra;
+    }
+    for (let last = first + counts.length - 1; last < day; last++) {
+      counts.push(counts[counts.length - 1] + (isWorking(last) ? 1 : 0));
+    }
+  };
+
+  // Working days from `from` up to (not including) `to` - negative when `to` is earlier
+  const between = (from: number, to: number) => {
+    cover(Math.min(from, to));
+    cover(Math.max(from, to));
+    return counts[to - first] - counts[from - first];
+  };
+
+  // Smallest day count in (0, limit] whose span from `day` (forward or back) holds `target` working days
+  const search = (day: number, target: number, direction: 1 | -1) => {
+    const limit = MAX_DAY_SEARCH * 10;
+    const span = (n: number) => (direction > 0 ? between(day, day + n) : between(day - n, day));
+    let high = Math.min(limit, Math.max(7, target));
+    while (high < limit && span(high) < target) high = Math.min(limit, high * 2);
+    let low = 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (span(mid) >= target) high = mid;
+      else low = mid + 1;
+    }
+    return high;
+  };
+
+  return {
+    getDuration(start, end) {
+      const startWall = toWallTime(start, timeZone);
+      const endWall = toWallTime(end, timeZone);
+      const startDay = Math.floor(startWall / MS_PER_DAY);
+      const endDay = Math.floor(endWall / MS_PER_DAY);
+
+      let count = between(startDay, endDay);
+      if (isWorking(endDay)) count += (endWall - endDay * MS_PER_DAY) / MS_PER_DAY;
+      if (isWorking(startDay)) count -= (startWall - startDay * MS_PER_DAY) / MS_PER_DAY;
+      return count;
+    },
+
+    addDuration(date, days) {
+      const whole = Math.trunc(days);
+      const fraction = days - whole;
+      const wall = toWallTime(date, timeZone);
+      let day = Math.floor(wall / MS_PER_DAY);
+      const timeOfDay = wall - day * MS_PER_DAY;
+
+      if (whole > 0) day += search(day, whole, 1);
+      else if (whole < 0) day -= search(day, -whole, -1);
+
+      return fromWallTime(day * MS_PER_DAY + timeOfDay + fraction * MS_PER_DAY, timeZone);
+    },
+  };
+}
+
+/**
+ * Combine two calendars - a day is working only if it is working in both
+ * (weekdays are intersected, holidays and working hours are combined)
+ */
+export function mergeCalendars(base?: GanttCalendar, overlay?: GanttCalendar): GanttCalendar | undefined {
+  if (!base) return overlay;
+  if (!overlay) return base;
+
+  const a = resolveCalendar(base);
+  const b = resolveCalendar(overlay);
+
+  return {
+    workingDays: a.workingDays.filter((day) => b.workingDays.includes(day)),
+    holidays: [...a.holidays, ...b.holidays],
+    workingHours: {
+      start: Math.max(a.workingHours.start, b.workingHours.start),
+      end: Math.min(a.workingHours.end, b.workingHours.end),
+    },
+  };
+}
+
+/**
+ * Calendar a task's duration is measured in
+ *
+ * The project calendar combined with the calendars of every assigned
+ * resource. Returns the project calendar itself when no assigned
+ * resource has a calendar of its own.
+ */
+export function getTaskCalendar(
+  task: GanttTask,
+  resources: GanttResource[] | Map<string, GanttResource>,
+  projectCalendar?: GanttCalendar
+): GanttCalendar | undefined {
+  if (!task.assignments || task.assignments.length === 0) return projectCalendar;
+
+  const lookup = (id: string) =>
+    resources instanceof Map ? resources.get(id) : resources.find((r) => r.id === id);
+
+  return task.assignments.reduce<GanttCalendar | undefined>((calendar, assignment) => {
+    const resource = lookup(assignment.resourceId);
+    return resource?.calendar ? mergeCalendars(calendar, resource.calendar) : calendar;
+  }, projectCalendar);
+}
@@ -0,0 +1,106 @@
+/**
+ * Column factories for the task list panel
+ */
+
+import type { GanttColumn, GanttResource, EarnedValueMetrics } from '../types';
+import { formatDateCompact } from './date';
+
+/**
+ * Default task list columns - name, start and end
+ * Dates are formatted in the given locale and time zone (default local time)
+ */
+export function createDefaultColumns(options: { locale?: string; timeZone?: string } = {}): GanttColumn[] {
+  const { locale, timeZone } = options;
+
+  return [
+    {
+      id: 'name',
+      header: 'Task Name',
+      width: 200,
+      minWidth: 100,
+    },
+    {
+      id: 'start',
+      header: 'Start',
+      width: 80,
+      align: 'center',
+      accessor: (task) => formatDateCompact(task.start, locale, timeZone),
+    },
+    {
+      id: 'end',
+      header: 'End',
+      width: 80,
+      align: 'center',
+      accessor: (task) => formatDateCompact(task.end, locale, timeZone),
+    },
+  ];
+}
+
+/**
+ * Column listing the resources assigned to each task
+ * Partial assignments show their units, e.g. "Alice, Bob (50%)"
+ */
+export function createResourceColumn(
+  resources: GanttResource[],
+  options: { header?: string; width?: number } = {}
+): GanttColumn {
+  const resourceMap = new Map(resources.map((r) => [r.id, r]));
+
+  return {
+    id: 'resources',
+    header: options.header ?? 'Resources',
+    width: options.width ?? 120,
+    accessor: (task) =>
+      (task.assignments ?? [])
+        .map((assignment) => {
+          const name = resourceMap.get(assignment.resourceId)?.name ?? assignment.resourceId;
+          const units = assignment.units ?? 1;
+          return units === 1 ? name : `${name} (${Math.round(units * 100)}%)`;
+        })
+        .join(', '),
+  };
+}
+
+/**
+ * Earned value columns - planned value, earned value, schedule variance and SPI
+ * Tasks missing from the metrics map show empty cells
+ */
+export function createEarnedValueColumns(
+  metrics: Map<string, EarnedValueMetrics>,
+  options: { width?: number } = {}
+): GanttColumn[] {
+  const width = options.width ?? 60;
+  const format = (value: number | null | undefined, digits: number) =>
+    value === null || value === undefined ? '' : value.toFixed(digits);
+
+  return [
+    {
+      id: 'pv',
+      header: 'PV',
+      width,
+      align: 'right',
+      accessor: (task) => format(metrics.get(task.id)?.plannedValue, 1),
+    },
+    {
+      id: 'ev',
+      header: 'EV',
+      width,
+      align: 'right',
+      accessor: (task) => format(metrics.get(task.id)?.earnedValue, 1),
+    },
+    {
+      id: 'sv',
+      header: 'SV',
+      width,
+      align: 'right',
+      accessor: (task) => format(metrics.get(task.id)?.scheduleVariance, 1),
+    },
+    {
+      id: 'spi',
+      header: 'SPI',
+      width,
+      align: 'right',
+      accessor: (task) => format(metrics.get(task.id)?.spi, 2),
+    },
+  ];
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { applyConstraint, getConstraintViolation } from './constraints';
+import type { GanttTask } from '../types';
+
+// 1 January 2024 is a Monday
+const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+const calendar = { workingDays: [1, 2, 3, 4, 5] };
+const zone = 'UTC';
+
+function task(extra: Partial<GanttTask>): GanttTask {
+  return { id: 't', name: 't', type: 'task', start: day(1), end: day(3), progress: 0, ...extra };
+}
+
+describe('getConstraintViolation', () => {
+  it('reports how many days the constrained edge is off', () => {
+    const snet = task({ constraintType: 'SNET', constraintDate: day(4) });
+    expect(getConstraintViolation(snet, day(2), day(4), zone)).toMatchObject({ type: 'SNET', days: 2 });
+    expect(getConstraintViolation(snet, day(4), day(6), zone)).toBeNull();
+
+    const fnlt = task({ constraintType: 'FNLT', constraintDate: day(5) });
+    expect(getConstraintViolation(fnlt, day(4), day(8), zone)).toMatchObject({ days: 3 });
+  });
+
+  it('ignores ASAP', () => {
+    expect(getConstraintViolation(task({ constraintType: 'ASAP' }), day(1), day(3), zone)).toBeNull();
+  });
+
+  it('flags an ALAP task that starts before its late start', () => {
+    const alap = task({ constraintType: 'ALAP' });
+    expect(getConstraintViolation(alap, day(1), day(3), zone)).toBeNull();
+    expect(getConstraintViolation(alap, day(1), day(3), zone, day(4))).toMatchObject({
+      type: 'ALAP',
+      date: day(4),
+      days: 3,
+    });
+    expect(getConstraintViolation(alap, day(4), day(6), zone, day(4))).toBeNull();
+  });
+});
+
+describe('applyConstraint', () => {
+  it('moves the task onto the constraint date keeping its duration', () => {
+    const snet = task({ constraintType: 'SNET', constraintDate: day(4) });
+    expect(applyConstraint(snet, day(1), day(3), 'move', undefined, zone)).toEqual({ start: day(4), end: day(6) });
+
+    const mfo = task({ constraintType: 'MFO', constraintDate: day(10) });
+    expect(applyConstraint(mfo, day(1), day(3), 'move', undefined, zone)).toEqual({ start: day(8), end: day(10) });
+  });
+
+  it('moves a start that lands on a non-working day to the next working day', () => {
+    // Saturday 6 January
+    const snet = task({ constraintType: 'SNET', constraintDate: day(6) });
+    expect(applyConstraint(snet, day(1), day(3), 'move', calendar, zone)).toEqual({ start: day(8), end: day(10) });
+    expect(applyConstraint(snet, day(1), day(12), 'resize-left', calendar, zone)).toEqual({
+      start: day(8),
+      end: day(12),
+    });
+  });
+
+  it('keeps a date constraint that falls on a non-working day', () => {
+    // Must start on Saturday 6 January: snapping to Monday would break it
+    const mso = task({ constraintType: 'MSO', constraintDate: day(6) });
+    const moved = applyConstraint(mso, day(1), day(3), 'move', calendar, zone);
+    expect(moved.start).toEqual(day(6));
+    expect(getConstraintViolation(mso, moved.start, moved.end, zone)).toBeNull();
+
+    const snlt = task({ constraintType: 'SNLT', constraintDate: day(6) });
+    expect(applyConstraint(snlt, day(9), day(12), 'resize-left', calendar, zone)).toEqual({
+      start: day(6),
+      end: day(12),
+    });
+  });
+
+  it('moves an ALAP task to its late start', () => {
+    const alap = task({ constraintType: 'ALAP' });
+    expect(applyConstraint(alap, day(1), day(3), 'move', calendar, zone, day(8))).toEqual({
+      start: day(8),
+      end: day(10),
+    });
+    expect(applyConstraint(alap, day(1), day(3), 'resize-right', calendar, zone, day(8))).toEqual({
+      start: day(1),
+      end: day(3),
+    });
+    expect(applyConstraint(alap, day(1), day(3), 'move', calendar, zone)).toEqual({ start: day(1), end: day(3) });
+  });
+
+  it('keeps the working-day duration when moving onto a finish constraint', () => {
+    // Finish by the end of Monday 8 January, two working days long
+    const fnlt = task({ constraintType: 'FNLT', constraintDate: day(9) });
+    expect(applyConstraint(fnlt, day(9), day(11), 'move', calendar, zone)).toEqual({ start: day(5), end: day(9) });
+  });
+
+  it('only adjusts the dragged edge when resizing', () => {
+    const fnet = task({ constraintType: 'FNET', constraintDate: day(8) });
+    expect(applyConstraint(fnet, day(1), day(5), 'resize-right', undefined, zone)).toEqual({
+      start: day(1),
+      end: day(8),
+    });
+    expect(applyConstraint(fnet, day(2), day(5), 'resize-left', undefined, zone)).toEqual({
+      start: day(2),
+      end: day(5),
+    });
+  });
+});
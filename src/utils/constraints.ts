@@ -0,0 +1,145 @@
+/**
+ * Task scheduling constraint utilities
+ *
+ * Constraints pin a task's start or finish relative to a date
+ * ("start no earlier than", "must finish on", ...).
+ */
+
+import type {
+  GanttTask,
+  GanttCalendar,
+  ConstraintType,
+  ConstraintViolation,
+  TaskDateRange,
+} from '../types';
+import { getDuration, addDuration, isWorkingDay, nextWorkingDay } from './calendar';
+import { formatDateCompact, diffInDays } from './date';
+
+/**
+ * Human-readable constraint names
+ */
+export const constraintLabels: Record<ConstraintType, string> = {
+  ASAP: 'As soon as possible',
+  ALAP: 'As late as possible',
+  SNET: 'Start no earlier than',
+  SNLT: 'Start no later than',
+  FNET: 'Finish no earlier than',
+  FNLT: 'Finish no later than',
+  MSO: 'Must start on',
+  MFO: 'Must finish on',
+};
+
+/**
+ * Whether a constraint type needs a constraint date
+ */
+export function isDateConstraint(type?: ConstraintType): boolean {
+  return type !== undefined && type !== 'ASAP' && type !== 'ALAP';
+}
+
+/**
+ * Whether a constraint applies to the start (true) or the finish (false)
+ */
+export function isStartConstraint(type: ConstraintType): boolean {
+  return type === 'SNET' || type === 'SNLT' || type === 'MSO';
+}
+
+/**
+ * Check task dates against the task's constraint
+ * Returns null when there is no constraint or it is satisfied. An ALAP task
+ * is only checked when its late start (from the critical path) is given,
+ * and is flagged when it starts before it.
+ */
+export function getConstraintViolation(
+  task: GanttTask,
+  start: Date = task.start,
+  end: Date = task.end,
+  timeZone?: string,
+  lateStart?: Date
+): ConstraintViolation | null {
+  const { constraintType: type } = task;
+  if (type === 'ALAP') {
+    if (!lateStart) return null;
+    const delta = diffInDays(lateStart, start, timeZone);
+    if (delta >= 0) return null;
+    return { taskId: task.id, type, date: lateStart, days: -delta, message: constraintLabels[type] };
+  }
+
+  const date = task.constraintDate;
+  if (!type || !date || !isDateConstraint(type)) return null;
+
+  const edge = isStartConstraint(type) ? start : end;
+  const delta = diffInDays(date, edge, timeZone);
+
+  let broken: boolean;
+  switch (type) {
+    case 'SNET':
+    case 'FNET':
+      broken = delta < 0;
+      break;
+    case 'SNLT':
+    case 'FNLT':
+      broken = delta > 0;
+      break;
+    default:
+      broken = delta !== 0;
+  }
+
+  if (!broken) return null;
+
+  return {
+    taskId: task.id,
+    type,
+    date,
+    days: Math.abs(delta),
+    message: `${constraintLabels[type]} ${formatDateCompact(date, undefined, timeZone)}`,
+  };
+}
+
+/**
+ * Move task dates so they satisfy the task's constraint
+ *
+ * A move keeps the duration (in working days when a calendar is given);
+ * a resize only adjusts the edge being dragged, and a constraint on the
+ * other edge is left alone. An ALAP task moves to `lateStart` and is not
+ * adjusted on resize. With a calendar, a start that falls on a non-working
+ * day moves to the next working day, unless that would break the
+ * constraint again (e.g. "must start on" a Saturday).
+ */
+export function applyConstraint(
+  task: GanttTask,
+  start: Date,
+  end: Date,
+  mode: 'move' | 'resize-left' | 'resize-right' = 'move',
+  calendar?: GanttCalendar,
+  timeZone?: string,
+  lateStart?: Date
+): TaskDateRange {
+  const violation = getConstraintViolation(task, start, end, timeZone, lateStart);
+  if (!violation) return { start, end };
+
+  const onStart = violation.type === 'ALAP' || isStartConstraint(violation.type);
+  const toWorkingDay = (date: Date) =>
+    calendar && !isWorkingDay(date, calendar, timeZone) ? nextWorkingDay(date, calendar, timeZone) : date;
+  const holds = (range: TaskDateRange) =>
+    !getConstraintViolation(task, range.start, range.end, timeZone, lateStart);
+
+  if (violation.type === 'ALAP' && mode !== 'move') return { start, end };
+  if (mode === 'resize-left') {
+    if (!onStart || violation.date >= end) return { start, end };
+    const snapped = toWorkingDay(violation.date);
+    return snapped < end && holds({ start: snapped, end })
+      ? { start: snapped, end }
+      : { start: violation.date, end };
+  }
+  if (mode === 'resize-right') {
+    return !onStart && violation.date > start ? { start, end: violation.date } : { start, end };
+  }
+
+  const duration = getDuration(start, end, calendar, timeZone);
+  const place = (newStart: Date) => ({ start: newStart, end: addDuration(newStart, duration, calendar, timeZone) });
+  const exact = onStart
+    ? place(violation.date)
+    : { start: addDuration(violation.date, -duration, calendar, timeZone), end: violation.date };
+  const snapped = place(toWorkingDay(exact.start));
+  return holds(snapped) ? snapped : exact;
+}
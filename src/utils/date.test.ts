@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  startOfDay,
+  addDays,
+  diffInDays,
+  calculateDateRange,
+  extendDateRange,
+  generateDateGrid,
+  getColumnWidth,
+  getPixelsPerDay,
+  getViewModeForScale,
+} from './date';
+import type { ViewMode } from '../types';
+import { fromZonedParts, getZonedParts } from './timezone';
+
+const ZONES = ['Europe/Berlin', 'America/New_York', 'UTC'];
+
+describe('startOfDay', () => {
+  it('starts days at local midnight in the zone', () => {
+    const date = new Date('2024-03-10T12:00:00Z');
+    expect(startOfDay(date, 'America/New_York')).toEqual(new Date('2024-03-10T05:00:00Z'));
+    expect(startOfDay(date, 'UTC')).toEqual(new Date('2024-03-10T00:00:00Z'));
+  });
+});
+
+describe('addDays / diffInDays', () => {
+  it('round-trip across the March and autumn DST changes', () => {
+    for (const zone of ZONES) {
+      for (const month of [2, 9, 10]) {
+        const start = fromZonedParts({ year: 2024, month, day: 1, hour: 9 }, zone);
+        for (let days = -40; days <= 40; days += 3) {
+          const end = addDays(start, days, zone);
+          expect(diffInDays(start, end, zone)).toBe(days);
+          expect(addDays(start, diffInDays(start, end, zone), zone)).toEqual(end);
+        }
+      }
+    }
+  });
+
+  it('keeps the wall-clock time of day', () => {
+    const start = fromZonedParts({ year: 2024, month: 2, day: 30, hour: 9 }, 'Europe/Berlin');
+    expect(addDays(start, 2, 'Europe/Berlin')).toEqual(
+      fromZonedParts({ year: 2024, month: 3, day: 1, hour: 9 }, 'Europe/Berlin')
+    );
+  });
+});
+
+describe('calculateDateRange', () => {
+  it('counts the days of the range in its zone', () => {
+    // 1 to 10 November in New York, across the autumn DST change
+    const zone = 'America/New_York';
+    const task = {
+      id: 'a',
+      name: 'a',
+      type: 'task' as const,
+      start: fromZonedParts({ year: 2024, month: 10, day: 1, hour: 9 }, zone),
+      end: fromZonedParts({ year: 2024, month: 10, day: 10, hour: 17 }, zone),
+      progress: 0,
+    };
+    const range = calculateDateRange([task], 0, undefined, zone);
+    expect(range.start).toEqual(fromZonedParts({ year: 2024, month: 10, day: 1 }, zone));
+    expect(range.totalDays).toBe(10);
+  });
+});
+
+describe('extendDateRange', () => {
+  const range = {
+    start: new Date('2024-03-01T00:00:00Z'),
+    end: new Date('2024-04-01T00:00:00Z'),
+    totalDays: 31,
+  };
+
+  it('grows the range to include earlier and later dates', () => {
+    const start = new Date('2024-02-01T00:00:00Z');
+    const end = new Date('2024-04-11T00:00:00Z');
+    expect(extendDateRange(range, start, end, 'UTC')).toEqual({ start, end, totalDays: 70 });
+  });
+
+  it('keeps the range when it already covers the dates', () => {
+    const inside = new Date('2024-03-15T00:00:00Z');
+    expect(extendDateRange(range, inside, inside, 'UTC')).toEqual(range);
+    expect(extendDateRange(range, undefined, undefined, 'UTC')).toEqual(range);
+  });
+});
+
+describe('generateDateGrid', () => {
+  it('starts day cells at midnight when the range does not', () => {
+    const range = {
+      start: new Date('2024-03-01T14:00:00Z'),
+      end: new Date('2024-03-03T23:59:59Z'),
+      totalDays: 3,
+    };
+    expect(generateDateGrid(range, 'day', 1, undefined, 'UTC')).toEqual([
+      new Date('2024-03-01T00:00:00Z'),
+      new Date('2024-03-02T00:00:00Z'),
+      new Date('2024-03-03T00:00:00Z'),
+    ]);
+  });
+
+  it('starts quarter and year cells on their first day', () => {
+    const range = {
+      start: new Date('2024-02-10T00:00:00Z'),
+      end: new Date('2025-01-20T00:00:00Z'),
+      totalDays: 345,
+    };
+    expect(generateDateGrid(range, 'quarter', 1, undefined, 'UTC')).toEqual([
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-04-01T00:00:00Z'),
+      new Date('2024-07-01T00:00:00Z'),
+      new Date('2024-10-01T00:00:00Z'),
+      new Date('2025-01-01T00:00:00Z'),
+    ]);
+    expect(generateDateGrid(range, 'year', 1, undefined, 'UTC')).toEqual([
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2025-01-01T00:00:00Z'),
+    ]);
+  });
+
+  it('starts quarters at local midnight in the zone', () => {
+    const zone = 'America/New_York';
+    const range = {
+      start: fromZonedParts({ year: 2024, month: 2, day: 10 }, zone),
+      end: fromZonedParts({ year: 2024, month: 6, day: 30 }, zone),
+      totalDays: 112,
+    };
+    expect(generateDateGrid(range, 'quarter', 1, undefined, zone)).toEqual([
+      fromZonedParts({ year: 2024, month: 0, day: 1 }, zone),
+      fromZonedParts({ year: 2024, month: 3, day: 1 }, zone),
+      fromZonedParts({ year: 2024, month: 6, day: 1 }, zone),
+    ]);
+  });
+
+  it('gives one hour cell per elapsed hour across a DST change', () => {
+    // Clocks go forward at 02:00 on 31 March 2024 in Berlin
+    const zone = 'Europe/Berlin';
+    const range = {
+      start: fromZonedParts({ year: 2024, month: 2, day: 31, hour: 0, minute: 30 }, zone),
+      end: fromZonedParts({ year: 2024, month: 2, day: 31, hour: 4 }, zone),
+      totalDays: 1,
+    };
+    const hours = generateDateGrid(range, 'hour', 1, undefined, zone);
+    expect(hours[0]).toEqual(fromZonedParts({ year: 2024, month: 2, day: 31, hour: 0 }, zone));
+    expect(hours.map((date) => getZonedParts(date, zone).hour)).toEqual([0, 1, 3, 4]);
+  });
+});
+
+describe('getViewModeForScale / getColumnWidth', () => {
+  it('picks the finest mode whose columns are still readable', () => {
+    expect(getViewModeForScale(960)).toBe('hour');
+    expect(getViewModeForScale(40)).toBe('day');
+    expect(getViewModeForScale(30)).toBe('day');
+    expect(getViewModeForScale(29.9)).toBe('week');
+    expect(getViewModeForScale(2)).toBe('month');
+    expect(getViewModeForScale(0.66)).toBe('quarter');
+    expect(getViewModeForScale(0.5)).toBe('year');
+    expect(getViewModeForScale(0.01)).toBe('year');
+  });
+
+  it('gives back each mode at its default scale', () => {
+    const modes: ViewMode[] = ['hour', 'day', 'week', 'month', 'quarter', 'year'];
+    for (const mode of modes) {
+      expect(getViewModeForScale(getPixelsPerDay(mode))).toBe(mode);
+    }
+  });
+
+  it('sizes columns to one unit of the mode at the scale', () => {
+    expect(getColumnWidth('week', 10)).toBe(70);
+    expect(getColumnWidth('hour', 48)).toBe(2);
+    expect(getColumnWidth('month')).toBe(180);
+    expect(getPixelsPerDay('month')).toBe(6);
+  });
+});
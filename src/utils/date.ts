@@ -1,155 +1,218 @@
 /**
  * Date utility functions for Gantt chart calculations
+ *
+ * Calendar math takes an optional IANA time zone (or 'UTC'); without one
+ * it uses the runtime's local time zone.
  */
 
-import type { ViewMode, DateRange, GanttTask } from '../types';
+import type { ViewMode, DateRange, GanttTask, FiscalCalendar } from '../types';
+import { getFiscalUnitRange } from './fiscal';
+import { getZonedParts, fromZonedParts, toWallTime, fromWallTime } from './timezone';
 
-const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
 
 /**
  * Get start of day (midnight)
  */
-export function startOfDay(date: Date): Date {
-  const result = new Date(date);
-  result.setHours(0, 0, 0, 0);
-  return result;
+export function startOfDay(date: Date, timeZone?: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return fromZonedParts({ year, month, day }, timeZone);
+}
+
+/**
+ * Get start of hour
+ */
+export function startOfHour(date: Date, timeZone?: string): Date {
+  const { year, month, day, hour } = getZonedParts(date, timeZone);
+  return fromZonedParts({ year, month, day, hour }, timeZone);
 }
 
 /**
  * Get end of day (23:59:59.999)
  */
-export function endOfDay(date: Date): Date {
-  const result = new Date(date);
-  result.setHours(23, 59, 59, 999);
-  return result;
+export function endOfDay(date: Date, timeZone?: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return fromZonedParts({ year, month, day, hour: 23, minute: 59, second: 59, millisecond: 999 }, timeZone);
 }
 
 /**
  * Get start of week
  */
-export function startOfWeek(date: Date, firstDayOfWeek: 0 | 1 = 1): Date {
-  const result = new Date(date);
-  const day = result.getDay();
-  const diff = (day < firstDayOfWeek ? 7 : 0) + day - firstDayOfWeek;
-  result.setDate(result.getDate() - diff);
-  result.setHours(0, 0, 0, 0);
-  return result;
+export function startOfWeek(date: Date, firstDayOfWeek: 0 | 1 = 1, timeZone?: string): Date {
+  const { year, month, day, weekday } = getZonedParts(date, timeZone);
+  const diff = (weekday < firstDayOfWeek ? 7 : 0) + weekday - firstDayOfWeek;
+  return fromZonedParts({ year, month, day: day - diff }, timeZone);
 }
 
 /**
  * Get start of month
  */
-export function startOfMonth(date: Date): Date {
-  const result = new Date(date);
-  result.setDate(1);
-  result.setHours(0, 0, 0, 0);
-  return result;
+export function startOfMonth(date: Date, timeZone?: string): Date {
+  const { year, month } = getZonedParts(date, timeZone);
+  return fromZonedParts({ year, month }, timeZone);
+}
+
+/**
+ * Get start of quarter
+ */
+export function startOfQuarter(date: Date, timeZone?: string): Date {
+  const { year, month } = getZonedParts(date, timeZone);
+  return fromZonedParts({ year, month: month - (month % 3) }, timeZone);
+}
+
+/**
+ * Get start of year
+ */
+export function startOfYear(date: Date, timeZone?: string): Date {
+  return fromZonedParts({ year: getZonedParts(date, timeZone).year, month: 0 }, timeZone);
+}
+
+/**
+ * Get quarter of year (1-4)
+ */
+export function getQuarter(date: Date, timeZone?: string): number {
+  return Math.floor(getZonedParts(date, timeZone).month / 3) + 1;
 }
 
 /**
  * Get end of month
  */
-export function endOfMonth(date: Date): Date {
-  const result = new Date(date);
-  result.setMonth(result.getMonth() + 1);
-  result.setDate(0);
-  result.setHours(23, 59, 59, 999);
-  return result;
+export function endOfMonth(date: Date, timeZone?: string): Date {
+  const { year, month } = getZonedParts(date, timeZone);
+  return fromZonedParts(
+    { year, month: month + 1, day: 0, hour: 23, minute: 59, second: 59, millisecond: 999 },
+    timeZone
+  );
 }
 
 /**
  * Add days to a date
+ * Days are calendar days in the time zone, so the time of day is kept across
+ * DST changes; fractions of a day are added as wall-clock time
+ */
+export function addDays(date: Date, days: number, timeZone?: string): Date {
+  return fromWallTime(toWallTime(date, timeZone) + days * MS_PER_DAY, timeZone);
+}
+
+/**
+ * Add hours to a date (elapsed hours, independent of the time zone)
+ */
+export function addHours(date: Date, hours: number): Date {
+  return new Date(date.getTime() + hours * MS_PER_HOUR);
+}
+
+/**
+ * Round a date to the nearest multiple of `minutes` since midnight
  */
-export function addDays(date: Date, days: number): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
+export function roundToMinutes(date: Date, minutes: number, timeZone?: string): Date {
+  const { year, month, day, hour, minute, second, millisecond } = getZonedParts(date, timeZone);
+  const minutesIntoDay = hour * 60 + minute + (second * 1000 + millisecond) / 60000;
+  return fromZonedParts({ year, month, day, minute: Math.round(minutesIntoDay / minutes) * minutes }, timeZone);
 }
 
 /**
  * Add weeks to a date
  */
-export function addWeeks(date: Date, weeks: number): Date {
-  return addDays(date, weeks * 7);
+export function addWeeks(date: Date, weeks: number, timeZone?: string): Date {
+  return addDays(date, weeks * 7, timeZone);
 }
 
 /**
  * Add months to a date
  */
-export function addMonths(date: Date, months: number): Date {
-  const result = new Date(date);
-  result.setMonth(result.getMonth() + months);
-  return result;
+export function addMonths(date: Date, months: number, timeZone?: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return fromZonedParts({ ...parts, month: parts.month + months }, timeZone);
 }
 
 /**
- * Get difference between dates in days
+ * Get difference between dates in calendar days
+ * Measured in wall-clock time, so a span across a DST change stays a whole
+ * number of days and `addDays(start, diffInDays(start, end))` gives back `end`
  */
-export function diffInDays(start: Date, end: Date): number {
-  return (end.getTime() - start.getTime()) / MS_PER_DAY;
+export function diffInDays(start: Date, end: Date, timeZone?: string): number {
+  return (toWallTime(end, timeZone) - toWallTime(start, timeZone)) / MS_PER_DAY;
 }
 
 /**
  * Check if date is weekend (Saturday or Sunday)
  */
-export function isWeekend(date: Date): boolean {
-  const day = date.getDay();
+export function isWeekend(date: Date, timeZone?: string): boolean {
+  const day = getZonedParts(date, timeZone).weekday;
   return day === 0 || day === 6;
 }
 
 /**
  * Check if two dates are the same day
  */
-export function isSameDay(date1: Date, date2: Date): boolean {
-  return (
-    date1.getFullYear() === date2.getFullYear() &&
-    date1.getMonth() === date2.getMonth() &&
-    date1.getDate() === date2.getDate()
-  );
+export function isSameDay(date1: Date, date2: Date, timeZone?: string): boolean {
+  const a = getZonedParts(date1, timeZone);
+  const b = getZonedParts(date2, timeZone);
+  return a.year === b.year && a.month === b.month && a.day === b.day;
 }
 
 /**
  * Check if date is today
  */
-export function isToday(date: Date): boolean {
-  return isSameDay(date, new Date());
+export function isToday(date: Date, timeZone?: string): boolean {
+  return isSameDay(date, new Date(), timeZone);
+}
+
+/**
+ * Whole days an end date is past a deadline (0 when on time)
+ */
+export function getDaysLate(end: Date, deadline: Date, timeZone?: string): number {
+  return Math.max(0, Math.ceil(diffInDays(deadline, end, timeZone)));
 }
 
 /**
  * Format date for display based on view mode
  */
-export function formatDate(date: Date, viewMode: ViewMode, locale = 'en-US'): string {
+export function formatDate(date: Date, viewMode: ViewMode, locale = 'en-US', timeZone?: string): string {
   switch (viewMode) {
+    case 'hour':
+      return date.toLocaleTimeString(locale, { hour: 'numeric', timeZone });
     case 'day':
-      return date.toLocaleDateString(locale, { weekday: 'short', day: 'numeric' });
+      return date.toLocaleDateString(locale, { weekday: 'short', day: 'numeric', timeZone });
     case 'week':
-      return date.toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+      return date.toLocaleDateString(locale, { month: 'short', day: 'numeric', timeZone });
     case 'month':
-      return date.toLocaleDateString(locale, { month: 'short', year: '2-digit' });
+      return date.toLocaleDateString(locale, { month: 'short', year: '2-digit', timeZone });
+    case 'quarter':
+      return `Q${getQuarter(date, timeZone)}`;
+    case 'year':
+      return date.toLocaleDateString(locale, { year: 'numeric', timeZone });
     default:
-      return date.toLocaleDateString(locale);
+      return date.toLocaleDateString(locale, { timeZone });
   }
 }
 
 /**
  * Format date for compact display (used in task list)
  */
-export function formatDateCompact(date: Date, locale = 'en-US'): string {
-  return date.toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+export function formatDateCompact(date: Date, locale = 'en-US', timeZone?: string): string {
+  return date.toLocaleDateString(locale, { month: 'short', day: 'numeric', timeZone });
 }
 
 /**
  * Get month name
  */
-export function getMonthName(date: Date, locale = 'en-US', format: 'long' | 'short' = 'long'): string {
-  return date.toLocaleDateString(locale, { month: format });
+export function getMonthName(
+  date: Date,
+  locale = 'en-US',
+  format: 'long' | 'short' = 'long',
+  timeZone?: string
+): string {
+  return date.toLocaleDateString(locale, { month: format, timeZone });
 }
 
 /**
  * Get week number of year
  */
-export function getWeekNumber(date: Date): number {
-  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+export function getWeekNumber(date: Date, timeZone?: string): number {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const d = new Date(Date.UTC(year, month, day));
   const dayNum = d.getUTCDay() || 7;
   d.setUTCDate(d.getUTCDate() + 4 - dayNum);
   const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
@@ -162,24 +225,25 @@ export function getWeekNumber(date: Date): number {
 export function calculateDateRange(
   tasks: GanttTask[],
   padding = 7,
-  customRange?: { start: Date; end: Date }
+  customRange?: { start: Date; end: Date },
+  timeZone?: string
 ): DateRange {
   // Use custom range if provided
   if (customRange) {
-    const start = startOfDay(customRange.start);
-    const end = endOfDay(customRange.end);
+    const start = startOfDay(customRange.start, timeZone);
+    const end = endOfDay(customRange.end, timeZone);
     return {
       start,
       end,
-      totalDays: Math.ceil(diffInDays(start, end)),
+      totalDays: Math.ceil(diffInDays(start, end, timeZone)),
     };
   }
 
   // Calculate from tasks
   if (tasks.length === 0) {
     const now = new Date();
-    const start = startOfDay(addDays(now, -padding));
-    const end = endOfDay(addDays(now, padding));
+    const start = startOfDay(addDays(now, -padding, timeZone), timeZone);
+    const end = endOfDay(addDays(now, padding, timeZone), timeZone);
     return {
       start,
       end,
@@ -202,51 +266,124 @@ export function calculateDateRange(
     if (task.baselineEnd && task.baselineEnd > maxDate) {
       maxDate = task.baselineEnd;
     }
+
+    // Keep deadline markers in view
+    if (task.deadline && task.deadline > maxDate) {
+      maxDate = task.deadline;
+    }
   });
 
   // Add padding
-  const start = startOfDay(addDays(minDate, -padding));
-  const end = endOfDay(addDays(maxDate, padding));
+  const start = startOfDay(addDays(minDate, -padding, timeZone), timeZone);
+  const end = endOfDay(addDays(maxDate, padding, timeZone), timeZone);
 
   return {
     start,
     end,
-    totalDays: Math.ceil(diffInDays(start, end)),
+    totalDays: Math.ceil(diffInDays(start, end, timeZone)),
+  };
+}
+
+/**
+ * Extend a date range so it starts no later than `start` and ends no earlier than `end`
+ */
+export function extendDateRange(
+  dateRange: DateRange,
+  start: Date | undefined,
+  end: Date | undefined,
+  timeZone?: string
+): DateRange {
+  if (!start || start > dateRange.start) start = dateRange.start;
+  if (!end || end < dateRange.end) end = dateRange.end;
+  return {
+    ...dateRange,
+    start,
+    end,
+    totalDays: Math.ceil(diffInDays(start, end, timeZone)),
   };
 }
 
 /**
  * Generate array of dates for grid rendering
+ * With a fiscal calendar, quarter and year views (and month view for
+ * week-based patterns) follow fiscal boundaries
  */
 export function generateDateGrid(
   dateRange: DateRange,
   viewMode: ViewMode,
-  firstDayOfWeek: 0 | 1 = 1
+  firstDayOfWeek: 0 | 1 = 1,
+  fiscalCalendar?: FiscalCalendar,
+  timeZone?: string
 ): Date[] {
   const dates: Date[] = [];
   let current = new Date(dateRange.start);
 
+  if (fiscalCalendar) {
+    const fiscalUnit =
+      viewMode === 'year'
+        ? 'year'
+        : viewMode === 'quarter'
+        ? 'quarter'
+        : viewMode === 'month' && (fiscalCalendar.pattern ?? 'calendar') !== 'calendar'
+        ? 'period'
+        : null;
+
+    if (fiscalUnit) {
+      current = getFiscalUnitRange(current, fiscalUnit, fiscalCalendar, firstDayOfWeek, timeZone).start;
+      while (current <= dateRange.end) {
+        dates.push(new Date(current));
+        current = getFiscalUnitRange(current, fiscalUnit, fiscalCalendar, firstDayOfWeek, timeZone).end;
+      }
+      return dates;
+    }
+  }
+
   switch (viewMode) {
+    case 'hour':
+      current = startOfHour(current, timeZone);
+      while (current <= dateRange.end) {
+        dates.push(new Date(current));
+        current = addHours(current, 1);
+      }
+      break;
+
     case 'day':
+      current = startOfDay(current, timeZone);
       while (current <= dateRange.end) {
         dates.push(new Date(current));
-        current = addDays(current, 1);
+        current = addDays(current, 1, timeZone);
       }
       break;
 
     case 'week':
-      current = startOfWeek(current, firstDayOfWeek);
+      current = startOfWeek(current, firstDayOfWeek, timeZone);
       while (current <= dateRange.end) {
         dates.push(new Date(current));
-        current = addWeeks(current, 1);
+        current = addWeeks(current, 1, timeZone);
       }
       break;
 
     case 'month':
-      current = startOfMonth(current);
+      current = startOfMonth(current, timeZone);
+      while (current <= dateRange.end) {
+        dates.push(new Date(current));
+        current = addMonths(current, 1, timeZone);
+      }
+      break;
+
+    case 'quarter':
+      current = startOfQuarter(current, timeZone);
       while (current <= dateRange.end) {
         dates.push(new Date(current));
-        current = addMonths(current, 1);
+        current = addMonths(current, 3, timeZone);
+      }
+      break;
+
+    case 'year':
+      current = startOfYear(current, timeZone);
+      while (current <= dateRange.end) {
+        dates.push(new Date(current));
+        current = addMonths(current, 12, timeZone);
       }
       break;
   }
@@ -256,15 +393,24 @@ export function generateDateGrid(
 
 /**
  * Get column width for a view mode
+ * With a continuous zoom scale, the column is one unit of the mode at that scale
  */
-export function getColumnWidth(viewMode: ViewMode): number {
+export function getColumnWidth(viewMode: ViewMode, pixelsPerDay?: number): number {
+  if (pixelsPerDay !== undefined) return pixelsPerDay * getViewModeUnit(viewMode);
+
   switch (viewMode) {
+    case 'hour':
+      return 40;
     case 'day':
       return 40;
     case 'week':
       return 120;
     case 'month':
       return 180;
+    case 'quarter':
+      return 120;
+    case 'year':
+      return 160;
     default:
       return 40;
   }
@@ -272,16 +418,55 @@ export function getColumnWidth(viewMode: ViewMode): number {
 
 /**
  * Get the unit increment for a view mode (in days)
+ * Months, quarters and years use their nominal length - it only sets the
+ * default scale; the timeline itself follows real calendar lengths
  */
 export function getViewModeUnit(viewMode: ViewMode): number {
   switch (viewMode) {
+    case 'hour':
+      return 1 / 24;
     case 'day':
       return 1;
     case 'week':
       return 7;
     case 'month':
-      return 30; // Approximate
+      return 30;
+    case 'quarter':
+      return 91;
+    case 'year':
+      return 365;
     default:
       return 1;
   }
 }
+
+/**
+ * Default scale of a view mode (pixels per day)
+ */
+export function getPixelsPerDay(viewMode: ViewMode): number {
+  return getColumnWidth(viewMode) / getViewModeUnit(viewMode);
+}
+
+// Narrowest column (in pixels) at which each unit still gets its own header cell
+const MIN_SCALE_COLUMN_WIDTH: Record<ViewMode, number> = {
+  hour: 40,
+  day: 30,
+  week: 60,
+  month: 60,
+  quarter: 60,
+  year: 0,
+};
+
+const SCALE_VIEW_MODES: ViewMode[] = ['hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+/**
+ * Pick the finest view mode whose columns are still readable at a scale
+ * (used for the grid and header tiers when zooming continuously)
+ */
+export function getViewModeForScale(pixelsPerDay: number): ViewMode {
+  return (
+    SCALE_VIEW_MODES.find(
+      (mode) => pixelsPerDay * getViewModeUnit(mode) >= MIN_SCALE_COLUMN_WIDTH[mode]
+    ) ?? 'year'
+  );
+}
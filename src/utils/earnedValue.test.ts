@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { computeEarnedValue, computeTaskEarnedValue } from './earnedValue';
+import type { GanttTask } from '../types';
+
+// 1 January 2024 is a Monday
+const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+const options = { timeZone: 'UTC' };
+const calendar = { workingDays: [1, 2, 3, 4, 5] };
+
+function task(id: string, start: number, end: number, extra: Partial<GanttTask> = {}): GanttTask {
+  return { id, name: id, type: 'task', start: day(start), end: day(end), progress: 0, ...extra };
+}
+
+describe('computeTaskEarnedValue', () => {
+  it('compares the work performed with the work planned by the status date', () => {
+    const t = task('a', 1, 11, { budget: 100, progress: 40 });
+    expect(computeTaskEarnedValue(t, day(6), options)).toEqual({
+      budget: 100,
+      plannedValue: 50,
+      earnedValue: 40,
+      scheduleVariance: -10,
+      spi: 0.8,
+      finishVariance: null,
+    });
+  });
+
+  it('plans against the baseline and reports the finish slip', () => {
+    const t = task('a', 3, 13, { baselineStart: day(1), baselineEnd: day(11), progress: 50 });
+    const metrics = computeTaskEarnedValue(t, day(11), options);
+    expect(metrics).toMatchObject({ budget: 10, plannedValue: 10, earnedValue: 5, finishVariance: 2 });
+  });
+
+  it('has no SPI before any work is planned', () => {
+    const metrics = computeTaskEarnedValue(task('a', 8, 10, { progress: 10 }), day(5), options);
+    expect(metrics.plannedValue).toBe(0);
+    expect(metrics.spi).toBeNull();
+  });
+
+  it('plans no work on non-working days', () => {
+    // Ten working days from Monday 1 to Monday 15 January
+    const t = task('a', 1, 15, { progress: 50 });
+    const withCalendar = { ...options, calendar };
+
+    // Saturday, Sunday and the Monday morning after the first week all sit at half the plan
+    for (const status of [day(6), day(7), day(8)]) {
+      expect(computeTaskEarnedValue(t, status, withCalendar)).toMatchObject({
+        budget: 10,
+        plannedValue: 5,
+        spi: 1,
+      });
+    }
+  });
+});
+
+describe('computeEarnedValue', () => {
+  it('sums the children of a group and derives its SPI from the sums', () => {
+    const tasks = [
+      task('g', 1, 11, { type: 'group' }),
+      task('a', 1, 5, { parentId: 'g', budget: 40, progress: 100 }),
+      task('b', 5, 11, { parentId: 'g', budget: 60, progress: 0 }),
+    ];
+    const result = computeEarnedValue(tasks, day(8), options);
+
+    expect(result.get('a')).toMatchObject({ plannedValue: 40, earnedValue: 40 });
+    expect(result.get('b')).toMatchObject({ plannedValue: 30, earnedValue: 0 });
+    expect(result.get('g')).toMatchObject({ budget: 100, plannedValue: 70, earnedValue: 40, scheduleVariance: -30 });
+    expect(result.get('g')?.spi).toBeCloseTo(40 / 70);
+  });
+
+  it('treats an empty group as a task', () => {
+    const result = computeEarnedValue([task('g', 1, 3, { type: 'group' })], day(2), options);
+    expect(result.get('g')).toMatchObject({ budget: 2, plannedValue: 1 });
+  });
+});
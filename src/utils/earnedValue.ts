@@ -0,0 +1,116 @@
+/**
+ * Earned value utilities
+ *
+ * Quantifies schedule variance against the baseline as of a status date.
+ * A task's budget (BAC) is `task.budget`, or its planned duration in days
+ * when no budget is set. The plan is the baseline, falling back to the
+ * current dates for tasks without one.
+ */
+
+import type { GanttTask, GanttCalendar, EarnedValueMetrics } from '../types';
+import { getDuration } from './calendar';
+
+export interface EarnedValueOptions {
+  /** Measure planned durations in working days of this calendar */
+  calendar?: GanttCalendar;
+
+  /** Time zone days are counted in (default local time) */
+  timeZone?: string;
+}
+
+/**
+ * Fraction of the planned work scheduled to be done by the status date
+ * Measured in (working) days, so non-working time adds no planned value
+ */
+function plannedFraction(start: Date, end: Date, statusDate: Date, options: EarnedValueOptions): number {
+  if (statusDate <= start) return 0;
+  if (statusDate >= end) return 1;
+  const total = getDuration(start, end, options.calendar, options.timeZone);
+  if (total <= 0) return 1;
+  return Math.min(1, getDuration(start, statusDate, options.calendar, options.timeZone) / total);
+}
+
+/**
+ * Earned value metrics for a single (non-group) task
+ */
+export function computeTaskEarnedValue(
+  task: GanttTask,
+  statusDate: Date,
+  options: EarnedValueOptions = {}
+): EarnedValueMetrics {
+  const plannedStart = task.baselineStart ?? task.start;
+  const plannedEnd = task.baselineEnd ?? task.end;
+
+  const budget = task.budget ?? Math.max(0, getDuration(plannedStart, plannedEnd, options.calendar, options.timeZone));
+  const plannedValue = budget * plannedFraction(plannedStart, plannedEnd, statusDate, options);
+  const earnedValue = (budget * Math.min(100, Math.max(0, task.progress))) / 100;
+
+  return {
+    budget,
+    plannedValue,
+    earnedValue,
+    scheduleVariance: earnedValue - plannedValue,
+    spi: plannedValue > 0 ? earnedValue / plannedValue : null,
+    finishVariance: task.baselineEnd ? getDuration(task.baselineEnd, task.end, options.calendar, options.timeZone) : null,
+  };
+}
+
+/**
+ * Earned value metrics for every task as of a status date
+ *
+ * Group rows aggregate the budget, planned value and earned value of their
+ * descendants; their SPI is computed from those sums.
+ */
+export function computeEarnedValue(
+  tasks: GanttTask[],
+  statusDate: Date = new Date(),
+  options: EarnedValueOptions = {}
+): Map<string, EarnedValueMetrics> {
+  const result = new Map<string, EarnedValueMetrics>();
+  const childrenOf = new Map<string, GanttTask[]>();
+
+  tasks.forEach((task) => {
+    if (task.parentId) {
+      childrenOf.set(task.parentId, [...(childrenOf.get(task.parentId) ?? []), task]);
+    }
+  });
+
+  function resolve(task: GanttTask, visiting: Set<string>): EarnedValueMetrics {
+    const cached = result.get(task.id);
+    if (cached) return cached;
+
+    const children = childrenOf.get(task.id) ?? [];
+    let metrics: EarnedValueMetrics;
+
+    if (task.type === 'group' && children.length > 0 && !visiting.has(task.id)) {
+      visiting.add(task.id);
+      const totals = children
+        .map((child) => resolve(child, visiting))
+        .reduce(
+          (sum, m) => ({
+            budget: sum.budget + m.budget,
+            plannedValue: sum.plannedValue + m.plannedValue,
+            earnedValue: sum.earnedValue + m.earnedValue,
+          }),
+          { budget: 0, plannedValue: 0, earnedValue: 0 }
+        );
+      visiting.delete(task.id);
+
+      metrics = {
+        ...totals,
+        scheduleVariance: totals.earnedValue - totals.plannedValue,
+        spi: totals.plannedValue > 0 ? totals.earnedValue / totals.plannedValue : null,
+        finishVariance: task.baselineEnd ? getDuration(task.baselineEnd, task.end, options.calendar, options.timeZone) : null,
+      };
+    } else {
+      metrics = computeTaskEarnedValue(task, statusDate, options);
+    }
+
+    result.set(task.id, metrics);
+    return metrics;
+  }
+
+  tasks.forEach((task) => resolve(task, new Set()));
+
+  return result;
+}
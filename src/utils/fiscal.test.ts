@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getFiscalYearStart,
+  getFiscalYear,
+  getFiscalPeriods,
+  getFiscalUnitRange,
+  formatFiscalLabel,
+} from './fiscal';
+import { generateDateGrid } from './date';
+
+const date = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+const zone = 'UTC';
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+const weeksOf = (period: { start: Date; end: Date }) => (period.end.getTime() - period.start.getTime()) / WEEK;
+
+describe('fiscal year start month', () => {
+  const april = { startMonth: 3 };
+
+  it('names years after the calendar year they end in by default', () => {
+    expect(getFiscalYearStart(2025, april, 1, zone)).toEqual(date(2024, 3, 1));
+    expect(getFiscalYear(date(2024, 2, 31), april, 1, zone)).toBe(2024);
+    expect(getFiscalYear(date(2024, 3, 1), april, 1, zone)).toBe(2025);
+  });
+
+  it('names years after the calendar year they start in with nameByEndYear off', () => {
+    const byStart = { ...april, nameByEndYear: false };
+    expect(getFiscalYearStart(2024, byStart, 1, zone)).toEqual(date(2024, 3, 1));
+    expect(getFiscalYear(date(2025, 2, 31), byStart, 1, zone)).toBe(2024);
+  });
+
+  it('uses calendar months as periods', () => {
+    const periods = getFiscalPeriods(2025, april, 1, zone);
+    expect(periods.map((p) => p.start)).toEqual(Array.from({ length: 12 }, (_, i) => date(2024, 3 + i, 1)));
+    expect(periods[11].end).toEqual(date(2025, 3, 1));
+  });
+});
+
+describe('4-4-5 periods', () => {
+  const retail = { startMonth: 1, pattern: '4-4-5' as const };
+
+  it('starts the year on the first day of the week containing the 1st', () => {
+    // 1 February 2023 is a Wednesday
+    expect(getFiscalYearStart(2024, retail, 1, zone)).toEqual(date(2023, 0, 30));
+    expect(getFiscalYearStart(2024, retail, 0, zone)).toEqual(date(2023, 0, 29));
+  });
+
+  it('splits quarters into 4, 4 and 5 weeks', () => {
+    const periods = getFiscalPeriods(2024, retail, 1, zone);
+    expect(periods.map(weeksOf)).toEqual([4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5]);
+    expect(periods[2]).toMatchObject({ quarter: 1, period: 3, start: date(2023, 2, 27), end: date(2023, 4, 1) });
+    periods.slice(1).forEach((p, i) => expect(p.start).toEqual(periods[i].end));
+  });
+
+  it('adds the extra week of a 53-week year to the last period', () => {
+    // The week containing 1 January 2017 starts 26 December 2016, the one containing 1 January 2018 on that day
+    const january = { startMonth: 0, pattern: '4-4-5' as const };
+    const periods = getFiscalPeriods(2017, january, 1, zone);
+    expect(periods[0].start).toEqual(date(2016, 11, 26));
+    expect(periods[11].end).toEqual(date(2018, 0, 1));
+    expect(weeksOf(periods[11])).toBe(6);
+  });
+
+  it('finds the quarter and year around a date', () => {
+    expect(getFiscalUnitRange(date(2023, 4, 15), 'quarter', retail, 1, zone)).toEqual({
+      start: date(2023, 4, 1),
+      end: date(2023, 6, 31),
+    });
+    expect(getFiscalUnitRange(date(2023, 3, 15), 'year', retail, 1, zone)).toEqual({
+      start: date(2023, 0, 30),
+      end: date(2024, 0, 29),
+    });
+  });
+});
+
+describe('formatFiscalLabel', () => {
+  it('labels years, quarters and periods', () => {
+    const april = { startMonth: 3 };
+    expect(formatFiscalLabel(date(2024, 4, 10), 'year', april, 1, zone)).toBe('FY25');
+    expect(formatFiscalLabel(date(2024, 4, 10), 'quarter', april, 1, zone)).toBe('FY25 Q1');
+    expect(formatFiscalLabel(date(2024, 4, 10), 'period', april, 1, zone)).toBe('P2');
+    expect(formatFiscalLabel(date(2025, 0, 10), 'quarter', april, 1, zone)).toBe('FY25 Q4');
+  });
+});
+
+describe('generateDateGrid with a fiscal calendar', () => {
+  it('follows fiscal quarters and periods', () => {
+    const range = { start: date(2024, 1, 10), end: date(2024, 11, 31), totalDays: 325 };
+    expect(generateDateGrid(range, 'quarter', 1, { startMonth: 1 }, zone)).toEqual([
+      date(2024, 1, 1),
+      date(2024, 4, 1),
+      date(2024, 7, 1),
+      date(2024, 10, 1),
+    ]);
+
+    const months = generateDateGrid(range, 'month', 1, { startMonth: 1, pattern: '4-4-5' }, zone);
+    expect(months[0]).toEqual(date(2024, 0, 29));
+    expect(months.slice(0, 4).map((start, i) => weeksOf({ start, end: months[i + 1] }))).toEqual([4, 4, 5, 4]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Fiscal calendar utilities
+ *
+ * A fiscal year starts on the first day of `startMonth`, or for the
+ * week-based retail patterns (4-4-5, 4-5-4, 5-4-4) on the first day of
+ * the week containing it. Every year has four quarters of three periods:
+ * calendar months, or runs of 4 and 5 weeks with the extra week of a
+ * 53-week year added to the last period.
+ */
+
+import type { FiscalCalendar, FiscalPeriodPattern } from '../types';
+import { getZonedParts, fromZonedParts } from './timezone';
+
+/**
+ * Fiscal calendar unit
+ */
+export type FiscalUnit = 'year' | 'quarter' | 'period';
+
+/**
+ * A fiscal period (month or 4/5-week period)
+ */
+export interface FiscalPeriod {
+  fiscalYear: number;
+  /** Quarter of the fiscal year (1-4) */
+  quarter: number;
+  /** Period of the fiscal year (1-12) */
+  period: number;
+  start: Date;
+  /** Start of the next period */
+  end: Date;
+}
+
+// Weeks per period within a quarter
+const PATTERN_WEEKS: Record<Exclude<FiscalPeriodPattern, 'calendar'>, number[]> = {
+  '4-4-5': [4, 4, 5],
+  '4-5-4': [4, 5, 4],
+  '5-4-4': [5, 4, 4],
+};
+
+/**
+ * Fill in fiscal calendar defaults
+ */
+function resolveFiscalCalendar(fiscal?: FiscalCalendar): Required<FiscalCalendar> {
+  return {
+    startMonth: fiscal?.startMonth ?? 0,
+    pattern: fiscal?.pattern ?? 'calendar',
+    nameByEndYear: fiscal?.nameByEndYear ?? true,
+  };
+}
+
+/**
+ * First day of a fiscal year
+ */
+export function getFiscalYearStart(
+  fiscalYear: number,
+  fiscal?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): Date {
+  const { startMonth, pattern, nameByEndYear } = resolveFiscalCalendar(fiscal);
+  const calendarYear = nameByEndYear && startMonth > 0 ? fiscalYear - 1 : fiscalYear;
+  const first = fromZonedParts({ year: calendarYear, month: startMonth }, timeZone);
+
+  if (pattern === 'calendar') return first;
+
+  // Week-based years start on the first day of the week containing the 1st
+  const diff = (getZonedParts(first, timeZone).weekday - firstDayOfWeek + 7) % 7;
+  return fromZonedParts({ year: calendarYear, month: startMonth, day: 1 - diff }, timeZone);
+}
+
+/**
+ * Fiscal year a date falls in
+ */
+export function getFiscalYear(
+  date: Date,
+  fiscal?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): number {
+  const { startMonth, nameByEndYear } = resolveFiscalCalendar(fiscal);
+  let year = getZonedParts(date, timeZone).year + (nameByEndYear && startMonth > 0 ? 1 : 0);
+
+  while (date < getFiscalYearStart(year, fiscal, firstDayOfWeek, timeZone)) year--;
+  while (date >= getFiscalYearStart(year + 1, fiscal, firstDayOfWeek, timeZone)) year++;
+
+  return year;
+}
+
+/**
+ * The twelve periods of a fiscal year
+ */
+export function getFiscalPeriods(
+  fiscalYear: number,
+  fiscal?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): FiscalPeriod[] {
+  const { pattern } = resolveFiscalCalendar(fiscal);
+  const yearStart = getFiscalYearStart(fiscalYear, fiscal, firstDayOfWeek, timeZone);
+  const nextYearStart = getFiscalYearStart(fiscalYear + 1, fiscal, firstDayOfWeek, timeZone);
+  const { year, month } = getZonedParts(yearStart, timeZone);
+  const periods: FiscalPeriod[] = [];
+  let start = yearStart;
+
+  for (let i = 0; i < 12; i++) {
+    let end: Date;
+    if (i === 11) {
+      end = nextYearStart;
+    } else if (pattern === 'calendar') {
+      end = fromZonedParts({ year, month: month + i + 1 }, timeZone);
+    } else {
+      const parts = getZonedParts(start, timeZone);
+      end = fromZonedParts({ ...parts, day: parts.day + PATTERN_WEEKS[pattern][i % 3] * 7 }, timeZone);
+    }
+
+    periods.push({ fiscalYear, quarter: Math.floor(i / 3) + 1, period: i + 1, start, end });
+    start = end;
+  }
+
+  return periods;
+}
+
+/**
+ * Fiscal period a date falls in
+ */
+export function getFiscalPeriod(
+  date: Date,
+  fiscal?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): FiscalPeriod {
+  const fiscalYear = getFiscalYear(date, fiscal, firstDayOfWeek, timeZone);
+  const periods = getFiscalPeriods(fiscalYear, fiscal, firstDayOfWeek, timeZone);
+  return periods.find((p) => date < p.end) ?? periods[periods.length - 1];
+}
+
+/**
+ * Start and end (start of the next one) of the fiscal year, quarter or period containing a date
+ */
+export function getFiscalUnitRange(
+  date: Date,
+  unit: FiscalUnit,
+  fiscal?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): { start: Date; end: Date } {
+  const period = getFiscalPeriod(date, fiscal, firstDayOfWeek, timeZone);
+  if (unit === 'period') return { start: period.start, end: period.end };
+
+  const periods = getFiscalPeriods(period.fiscalYear, fiscal, firstDayOfWeek, timeZone);
+  if (unit === 'year') return { start: periods[0].start, end: periods[11].end };
+
+  const first = (period.quarter - 1) * 3;
+  return { start: periods[first].start, end: periods[first + 2].end };
+}
+
+/**
+ * Fiscal label for a date, e.g. "FY27", "FY27 Q1" or "P4"
+ */
+export function formatFiscalLabel(
+  date: Date,
+  unit: FiscalUnit,
+  fiscal?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): string {
+  const period = getFiscalPeriod(date, fiscal, firstDayOfWeek, timeZone);
+  const yearLabel = `FY${String(period.fiscalYear % 100).padStart(2, '0')}`;
+
+  switch (unit) {
+    case 'year':
+      return yearLabel;
+    case 'quarter':
+      return `${yearLabel} Q${period.quarter}`;
+    case 'period':
+      return `P${period.period}`;
+  }
+}
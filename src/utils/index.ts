@@ -1,3 +1,13 @@
 export * from './date';
 export * from './position';
 export * from './theme';
+export * from './schedule';
+export * from './calendar';
+export * from './columns';
+export * from './constraints';
+export * from './validation';
+export * from './earnedValue';
+export * from './leveling';
+export * from './timescale';
+export * from './fiscal';
+export * from './timezone';
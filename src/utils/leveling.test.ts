@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { findOverallocations, levelResources } from './leveling';
+import type { GanttTask, GanttResource } from '../types';
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+const options = { timeZone: 'UTC' };
+
+function task(id: string, start: number, end: number, extra: Partial<GanttTask> = {}): GanttTask {
+  return { id, name: id, type: 'task', start: day(start), end: day(end), progress: 0, ...extra };
+}
+
+const assign = (resourceId: string, units?: number) => ({ assignments: [{ resourceId, units }] });
+
+const resources: GanttResource[] = [{ id: 'r1', name: 'R1' }];
+
+describe('findOverallocations', () => {
+  it('reports each day a resource is loaded beyond capacity', () => {
+    const tasks = [task('a', 1, 3, assign('r1')), task('b', 2, 4, assign('r1'))];
+    expect(findOverallocations(tasks, resources, options)).toEqual([
+      { resourceId: 'r1', date: day(2), load: 2, capacity: 1, taskIds: ['a', 'b'] },
+    ]);
+  });
+
+  it('honors units and capacity', () => {
+    const half = [task('a', 1, 3, assign('r1', 0.5)), task('b', 1, 3, assign('r1', 0.5))];
+    expect(findOverallocations(half, resources, options)).toEqual([]);
+
+    const team = [{ id: 'r1', name: 'R1', capacity: 2 }];
+    const tasks = [task('a', 1, 2, assign('r1')), task('b', 1, 2, assign('r1')), task('c', 1, 2, assign('r1'))];
+    expect(findOverallocations(tasks, team, options)).toMatchObject([{ load: 3, capacity: 2 }]);
+  });
+
+  it('ignores group tasks and non-working days', () => {
+    // 5 to 8 January 2024 runs Friday to Monday
+    const tasks = [
+      task('group', 5, 8, { type: 'group', ...assign('r1') }),
+      task('a', 5, 8, assign('r1')),
+      task('b', 5, 8, assign('r1')),
+    ];
+    const result = findOverallocations(tasks, resources, { ...options, calendar: { workingDays: [1, 2, 3, 4, 5] } });
+    expect(result.map((o) => o.date)).toEqual([day(5)]);
+    expect(result[0].taskIds).toEqual(['a', 'b']);
+  });
+});
+
+describe('levelResources', () => {
+  it('delays the lower-priority task within its float and pushes its successors', () => {
+    const tasks = [
+      task('a', 1, 3, { priority: 900, ...assign('r1') }),
+      task('b', 1, 3, assign('r1')),
+      task('c', 3, 4),
+      task('long', 1, 11),
+    ];
+    const dependencies = [{ fromId: 'b', toId: 'c', type: 'finish-to-start' as const }];
+    const { changes, overallocations } = levelResources(tasks, dependencies, resources, options);
+
+    expect(changes.has('a')).toBe(false);
+    expect(changes.get('b')).toEqual({ start: day(3), end: day(5) });
+    expect(changes.get('c')).toEqual({ start: day(5), end: day(6) });
+    expect(overallocations).toEqual([]);
+  });
+
+  it('keeps dates and reports the conflict when there is no float', () => {
+    const tasks = [task('a', 1, 3, assign('r1')), task('b', 1, 3, assign('r1'))];
+    const { changes, overallocations } = levelResources(tasks, [], resources, options);
+
+    expect(changes.size).toBe(0);
+    expect(overallocations.map((o) => o.date)).toEqual([day(1), day(2)]);
+  });
+
+  it('uses the float left after earlier tasks moved', () => {
+    // Pushing c behind b uses up its float, so c cannot dodge e past the project finish
+    const tasks = [
+      task('a', 1, 3, { priority: 900, ...assign('r1') }),
+      task('e', 5, 7, { priority: 850, ...assign('r2') }),
+      task('b', 1, 3, { priority: 800, ...assign('r1') }),
+      task('c', 3, 5, assign('r2')),
+      task('long', 1, 7),
+    ];
+    const dependencies = [{ fromId: 'b', toId: 'c', type: 'finish-to-start' as const }];
+    const team = [...resources, { id: 'r2', name: 'R2' }];
+    const { changes, overallocations } = levelResources(tasks, dependencies, team, options);
+
+    expect(changes.get('b')).toEqual({ start: day(3), end: day(5) });
+    expect(changes.get('c')).toEqual({ start: day(5), end: day(7) });
+    expect(overallocations.map((o) => o.resourceId)).toEqual(['r2', 'r2']);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Resource leveling
+ *
+ * Resolves over-allocations by delaying tasks within their total float,
+ * so the project finish never moves. Tasks are placed one at a time by
+ * priority; a task that cannot be placed without overloading one of its
+ * resources keeps its dates and the conflict is reported.
+ */
+
+import type {
+  GanttTask,
+  GanttDependency,
+  GanttResource,
+  GanttCalendar,
+  TaskDateRange,
+  ResourceOverallocation,
+  LevelingResult,
+  CriticalPathResult,
+} from '../types';
+import type { ScheduleOptions } from './schedule';
+import { computeCriticalPath, propagateDateChange } from './schedule';
+import { isWorkingDay, mergeCalendars, getDuration, addDuration, getTaskCalendar } from './calendar';
+import { startOfDay, addDays } from './date';
+
+// Load above capacity by at most this much is not an over-allocation
+const LOAD_TOLERANCE = 1e-6;
+
+const DEFAULT_PRIORITY = 500;
+
+/**
+ * Call `fn` with the start of every day a task occupies that is a working day
+ */
+function forEachWorkingDay(
+  range: TaskDateRange,
+  calendar: GanttCalendar | undefined,
+  timeZone: string | undefined,
+  fn: (day: number) => void
+) {
+  for (let day = startOfDay(range.start, timeZone); day < range.end; day = addDays(day, 1, timeZone)) {
+    if (!calendar || isWorkingDay(day, calendar, timeZone)) fn(day.getTime());
+  }
+}
+
+interface DayLoad {
+  units: number;
+  taskIds: string[];
+}
+
+/**
+ * Tracks assigned units per resource and day
+ */
+function createLoadLedger(resources: GanttResource[], calendar?: GanttCalendar, timeZone?: string) {
+  const resourceMap = new Map(resources.map((r) => [r.id, r]));
+  const calendars = new Map(resources.map((r) => [r.id, mergeCalendars(calendar, r.calendar)]));
+  const load = new Map<string, Map<number, DayLoad>>();
+
+  function update(task: GanttTask, range: TaskDateRange, sign: 1 | -1) {
+    task.assignments?.forEach(({ resourceId, units = 1 }) => {
+      if (!resourceMap.has(resourceId)) return;
+      const days = load.get(resourceId) ?? new Map<number, DayLoad>();
+      load.set(resourceId, days);
+
+      forEachWorkingDay(range, calendars.get(resourceId), timeZone, (day) => {
+        const entry = days.get(day) ?? { units: 0, taskIds: [] };
+        entry.units += sign * units;
+        entry.taskIds =
+          sign > 0 ? [...entry.taskIds, task.id] : entry.taskIds.filter((id) => id !== task.id);
+        days.set(day, entry);
+      });
+    });
+  }
+
+  function fits(task: GanttTask, range: TaskDateRange): boolean {
+    return (task.assignments ?? []).every(({ resourceId, units = 1 }) => {
+      const resource = resourceMap.get(resourceId);
+      if (!resource) return true;
+      const capacity = resource.capacity ?? 1;
+      let ok = true;
+
+      forEachWorkingDay(range, calendars.get(resourceId), timeZone, (day) => {
+        const used = load.get(resourceId)?.get(day)?.units ?? 0;
+        if (used + units > capacity + LOAD_TOLERANCE) ok = false;
+      });
+      return ok;
+    });
+  }
+
+  function overallocations(): ResourceOverallocation[] {
+    const result: ResourceOverallocation[] = [];
+
+    resources.forEach((resource) => {
+      const capacity = resource.capacity ?? 1;
+      const days = load.get(resource.id);
+      if (!days) return;
+
+      Array.from(days.entries())
+        .filter(([, entry]) => entry.units > capacity + LOAD_TOLERANCE)
+        .sort(([a], [b]) => a - b)
+        .forEach(([day, entry]) => {
+          result.push({
+            resourceId: resource.id,
+            date: new Date(day),
+            load: entry.units,
+            capacity,
+            taskIds: entry.taskIds,
+          });
+        });
+    });
+
+    return result;
+  }
+
+  return { update, fits, overallocations };
+}
+
+/**
+ * Find the days on which resources are assigned beyond their capacity
+ *
+ * Load is counted per working day of the project calendar combined with
+ * the resource's own calendar. Group tasks are ignored.
+ */
+export function findOverallocations(
+  tasks: GanttTask[],
+  resources: GanttResource[],
+  options: ScheduleOptions = {}
+): ResourceOverallocation[] {
+  const ledger = createLoadLedger(resources, options.calendar, options.timeZone);
+  tasks.forEach((task) => {
+    if (task.type !== 'group') ledger.update(task, task, 1);
+  });
+  return ledger.overallocations();
+}
+
+/**
+ * Level resources by delaying tasks within their total float
+ *
+ * Tasks are placed in order of `priority` (higher first), then start date.
+ * Each task starts at the earliest day within its float on which none of
+ * its resources is overloaded by the tasks placed before it; successors
+ * are pushed along when it moves. Returns the new dates of every task that
+ * moved, and the over-allocations left afterwards.
+ */
+export function levelResources(
+  tasks: GanttTask[],
+  dependencies: GanttDependency[] = [],
+  resources: GanttResource[] = [],
+  options: ScheduleOptions = {}
+): LevelingResult {
+  const { calendar, timeZone } = options;
+  const scheduleOptions = { ...options, resources };
+  const resourceIds = new Set(resources.map((r) => r.id));
+  const taskMap = new Map(tasks.map((t) => [t.id, t]));
+  const current = new Map<string, TaskDateRange>(
+    tasks.map((t) => [t.id, { start: t.start, end: t.end }])
+  );
+  const snapshot = () => tasks.map((t) => ({ ...t, ...current.get(t.id)! }));
+
+  const ledger = createLoadLedger(resources, calendar, timeZone);
+  const placed = new Set<string>();
+
+  // Float only changes when a task moves, so the schedule is recomputed lazily
+  let schedule: CriticalPathResult | null = null;
+  const floatOf = (id: string) => {
+    if (!schedule) schedule = computeCriticalPath(snapshot(), dependencies, scheduleOptions);
+    return schedule.tasks.get(id)?.totalFloat ?? 0;
+  };
+
+  const candidates = tasks
+    .filter(
+      (t) => t.type !== 'group' && t.assignments?.some((a) => resourceIds.has(a.resourceId))
+    )
+    .sort(
+      (a, b) =>
+        (b.priority ?? DEFAULT_PRIORITY) - (a.priority ?? DEFAULT_PRIORITY) ||
+        a.start.getTime() - b.start.getTime()
+    );
+
+  candidates.forEach((task) => {
+    const dates = current.get(task.id)!;
+    const taskCalendar = getTaskCalendar(task, resources, calendar);
+    const duration = Math.max(0, getDuration(dates.start, dates.end, taskCalendar, timeZone));
+    const float = floatOf(task.id);
+
+    let target = dates;
+    for (let delay = 0; delay <= Math.floor(float + LOAD_TOLERANCE); delay++) {
+      const start = delay === 0 ? dates.start : addDuration(dates.start, delay, taskCalendar, timeZone);
+      const range = { start, end: addDuration(start, duration, taskCalendar, timeZone) };
+      if (ledger.fits(task, range)) {
+        if (delay > 0) target = range;
+        break;
+      }
+    }
+
+    if (target !== dates) {
+      propagateDateChange(
+        snapshot(),
+        dependencies,
+        task.id,
+        target.start,
+        target.end,
+        'push',
+        scheduleOptions
+      ).forEach((range, id) => {
+        // Successors that were already placed carry their load along
+        if (placed.has(id)) {
+          ledger.update(taskMap.get(id)!, current.get(id)!, -1);
+          ledger.update(taskMap.get(id)!, range, 1);
+        }
+        current.set(id, range);
+      });
+      schedule = null;
+    }
+
+    ledger.update(task, current.get(task.id)!, 1);
+    placed.add(task.id);
+  });
+
+  const changes = new Map<string, TaskDateRange>();
+  current.forEach((range, id) => {
+    const task = taskMap.get(id)!;
+    if (range.start.getTime() !== task.start.getTime() || range.end.getTime() !== task.end.getTime()) {
+      changes.set(id, range);
+    }
+  });
+
+  return {
+    changes,
+    overallocations: findOverallocations(snapshot(), resources, options),
+  };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { dateToX, xToDate, calculateChartWidth, snapToGrid, rollupGroupTasks } from './position';
+import type { DateRange, GanttTask, ViewMode } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const day = (n: number, hour = 0) => new Date(Date.UTC(2024, 0, n, hour));
+
+// 1 to 15 January with every night from 18:00 to 08:00 hidden
+const range: DateRange = {
+  start: day(1),
+  end: day(15),
+  totalDays: 14,
+  hiddenIntervals: Array.from({ length: 14 }, (_, i) => ({ start: day(i + 1, 18), end: day(i + 2, 8) })),
+};
+
+describe('dateToX / xToDate with hidden intervals', () => {
+  it('measures only shown time', () => {
+    // 00:00-18:00 on the first day, then 08:00-18:00 on the 13 days after it
+    expect(calculateChartWidth(range, 'day', 24)).toBe(18 + 10 * 13);
+  });
+
+  it('maps shown dates across the breaks and back', () => {
+    const width = calculateChartWidth(range, 'day', 24);
+    expect(dateToX(day(1, 12), range, width)).toBe(12);
+    expect(dateToX(day(2, 9), range, width)).toBe(19);
+    expect(dateToX(day(5, 8), range, width)).toBe(18 + 10 * 3);
+
+    for (let hour = 0; hour < 14 * 24; hour++) {
+      const date = new Date(range.start.getTime() + hour * HOUR);
+      const localHour = date.getUTCHours();
+      const hidden = (localHour >= 18 || localHour < 8) && hour >= 18;
+      if (hidden) continue;
+      expect(xToDate(dateToX(date, range, width), range, width)).toEqual(date);
+    }
+  });
+
+  it('places hidden dates on the break and resolves the break to shown time', () => {
+    const width = calculateChartWidth(range, 'day', 24);
+    expect(dateToX(day(3, 22), range, width)).toBe(dateToX(day(3, 18), range, width));
+    expect(xToDate(dateToX(day(3, 18), range, width), range, width)).toEqual(day(4, 8));
+  });
+
+  it('matches the plain linear mapping without hidden intervals', () => {
+    const plain = { start: day(1), end: day(11), totalDays: 10 };
+    expect(dateToX(day(6), plain, 100)).toBe(50);
+    expect(xToDate(50, plain, 100)).toEqual(day(6));
+  });
+});
+
+describe('snapToGrid', () => {
+  // 1 January to 31 December 2024 at one pixel per hour
+  const year = { start: day(1), end: day(367), totalDays: 366 };
+  const width = 366 * 24;
+
+  function snap(date: Date, viewMode: ViewMode, firstDayOfWeek: 0 | 1 = 1, interval = 60): Date {
+    const x = snapToGrid(dateToX(date, year, width), year, width, viewMode, interval, firstDayOfWeek, 'UTC');
+    return xToDate(x, year, width);
+  }
+
+  it('snaps hours to the nearest step', () => {
+    const date = new Date(Date.UTC(2024, 0, 10, 9, 40));
+    expect(snap(date, 'hour')).toEqual(day(10, 10));
+    expect(snap(date, 'hour', 1, 15)).toEqual(new Date(Date.UTC(2024, 0, 10, 9, 45)));
+  });
+
+  it('snaps day, week and month views to the start of the day', () => {
+    for (const viewMode of ['day', 'week', 'month'] as const) {
+      expect(snap(day(10, 15), viewMode)).toEqual(day(10));
+    }
+  });
+
+  it('snaps quarter view to the start of the week', () => {
+    // Wednesday 10 January
+    expect(snap(day(10, 15), 'quarter')).toEqual(day(8));
+    expect(snap(day(10, 15), 'quarter', 0)).toEqual(day(7));
+  });
+
+  it('snaps year view to the start of the month', () => {
+    expect(snap(new Date(Date.UTC(2024, 4, 20)), 'year')).toEqual(new Date(Date.UTC(2024, 4, 1)));
+  });
+});
+
+describe('rollupGroupTasks', () => {
+  function task(id: string, start: number, end: number, extra: Partial<GanttTask> = {}): GanttTask {
+    return { id, name: id, type: 'task', start: day(start), end: day(end), progress: 0, ...extra };
+  }
+
+  const byId = (tasks: GanttTask[]) => new Map(tasks.map((t) => [t.id, t]));
+
+  it('spans the children and weights their progress by duration', () => {
+    const tasks = [
+      task('g', 5, 6, { type: 'group', progress: 99 }),
+      task('a', 2, 4, { parentId: 'g', progress: 100 }),
+      task('b', 4, 10, { parentId: 'g', progress: 50 }),
+    ];
+    // (2 days x 100% + 6 days x 50%) / 8 days
+    expect(byId(rollupGroupTasks(tasks)).get('g')).toMatchObject({ start: day(2), end: day(10), progress: 62.5 });
+  });
+
+  it('rolls up nested groups from the inside out', () => {
+    const tasks = [
+      task('outer', 1, 2, { type: 'group' }),
+      task('inner', 1, 2, { type: 'group', parentId: 'outer' }),
+      task('a', 3, 5, { parentId: 'inner', progress: 100 }),
+      task('b', 5, 7, { parentId: 'inner' }),
+      task('c', 6, 12, { parentId: 'outer', progress: 25 }),
+    ];
+    const result = byId(rollupGroupTasks(tasks));
+    expect(result.get('inner')).toMatchObject({ start: day(3), end: day(7), progress: 50 });
+    // (4 days x 50% + 6 days x 25%) / 10 days
+    expect(result.get('outer')).toMatchObject({ start: day(3), end: day(12), progress: 35 });
+  });
+
+  it('keeps empty groups and leaf tasks as they are', () => {
+    const tasks = [task('empty', 1, 4, { type: 'group', progress: 30 }), task('a', 2, 3)];
+    const result = rollupGroupTasks(tasks);
+    expect(result[0]).toBe(tasks[0]);
+    expect(result[1]).toBe(tasks[1]);
+  });
+
+  it('averages the progress of zero-length children', () => {
+    const tasks = [
+      task('g', 1, 2, { type: 'group' }),
+      task('m1', 4, 4, { type: 'milestone', parentId: 'g', progress: 100 }),
+      task('m2', 6, 6, { type: 'milestone', parentId: 'g' }),
+    ];
+    expect(byId(rollupGroupTasks(tasks)).get('g')).toMatchObject({ start: day(4), end: day(6), progress: 50 });
+  });
+
+  it('rolls up preview dates without moving the children', () => {
+    const tasks = [task('g', 1, 3, { type: 'group' }), task('a', 1, 3, { parentId: 'g' })];
+    const result = byId(rollupGroupTasks(tasks, new Map([['a', { start: day(5), end: day(8) }]])));
+    expect(result.get('g')).toMatchObject({ start: day(5), end: day(8) });
+    expect(result.get('a')).toBe(tasks[1]);
+  });
+});
@@ -5,25 +5,100 @@
  * ensure that task bars and baseline bars align perfectly.
  */
 
-import type { ViewMode, DateRange, GanttTask, ComputedTask, GanttConfig } from '../types';
-import { getColumnWidth, startOfDay } from './date';
+import type {
+  ViewMode,
+  DateRange,
+  GanttTask,
+  ComputedTask,
+  GanttConfig,
+  CriticalPathResult,
+  TaskDateRange,
+} from '../types';
+import { getPixelsPerDay, startOfDay, startOfWeek, startOfMonth, roundToMinutes } from './date';
+import { getConstraintViolation, isDateConstraint } from './constraints';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 /**
- * Calculate the total chart width based on date range and view mode
+ * Hidden intervals of a range as parallel arrays, with the hidden time
+ * accumulated before each interval
  */
-export function calculateChartWidth(dateRange: DateRange, viewMode: ViewMode): number {
-  const columnWidth = getColumnWidth(viewMode);
+interface HiddenIndex {
+  starts: number[];
+  ends: number[];
+  /** Hidden milliseconds before interval `i` (one extra entry for the total) */
+  hiddenBefore: number[];
+  /** Shown milliseconds between the range start and interval `i` */
+  shownBefore: number[];
+}
 
-  switch (viewMode) {
-    case 'day':
-      return dateRange.totalDays * columnWidth;
-    case 'week':
-      return Math.ceil(dateRange.totalDays / 7) * columnWidth;
-    case 'month':
-      return Math.ceil(dateRange.totalDays / 30) * columnWidth;
-    default:
-      return dateRange.totalDays * columnWidth;
+const hiddenIndexCache = new WeakMap<DateRange, HiddenIndex>();
+
+function getHiddenIndex(dateRange: DateRange): HiddenIndex {
+  let index = hiddenIndexCache.get(dateRange);
+  if (!index) {
+    const intervals = dateRange.hiddenIntervals ?? [];
+    const rangeStart = dateRange.start.getTime();
+    index = { starts: [], ends: [], hiddenBefore: [0], shownBefore: [] };
+    for (const interval of intervals) {
+      const hidden = index.hiddenBefore[index.hiddenBefore.length - 1];
+      index.starts.push(interval.start.getTime());
+      index.ends.push(interval.end.getTime());
+      index.shownBefore.push(interval.start.getTime() - rangeStart - hidden);
+      index.hiddenBefore.push(hidden + interval.end.getTime() - interval.start.getTime());
+    }
+    hiddenIndexCache.set(dateRange, index);
   }
+  return index;
+}
+
+/**
+ * Number of leading values in a sorted array that pass `test`
+ */
+function countWhile(values: number[], test: (value: number) => boolean): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (test(values[mid])) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Milliseconds of hidden time between the range start and a date
+ */
+function hiddenMsBefore(date: Date, dateRange: DateRange): number {
+  const { starts, ends, hiddenBefore } = getHiddenIndex(dateRange);
+  const time = date.getTime();
+  const count = countWhile(starts, (start) => start < time);
+  if (count === 0) return 0;
+  return hiddenBefore[count - 1] + Math.min(time, ends[count - 1]) - starts[count - 1];
+}
+
+/**
+ * Milliseconds of the range shown on the timeline (excluding hidden intervals)
+ */
+function visibleMs(dateRange: DateRange): number {
+  return dateRange.end.getTime() - dateRange.start.getTime() - hiddenMsBefore(dateRange.end, dateRange);
+}
+
+/**
+ * Calculate the total chart width based on date range and view mode
+ *
+ * The width is the exact length of the range times the scale (pixels per
+ * day), so calendar units keep their real length: a 31-day month is wider
+ * than February, and grid lines drawn with `dateToX` land on the unit starts.
+ * A continuous zoom scale takes precedence over the view mode's default scale.
+ */
+export function calculateChartWidth(
+  dateRange: DateRange,
+  viewMode: ViewMode,
+  pixelsPerDay?: number
+): number {
+  const scale = pixelsPerDay ?? getPixelsPerDay(viewMode);
+  return (visibleMs(dateRange) / MS_PER_DAY) * scale;
 }
 
 /**
@@ -31,28 +106,33 @@ export function calculateChartWidth(dateRange: DateRange, viewMode: ViewMode): n
  *
  * This is THE key function - used for both task bars and baselines
  * ensuring they use the exact same coordinate system.
+ * Dates inside a hidden interval map to the interval's break position.
  */
 export function dateToX(
   date: Date,
   dateRange: DateRange,
   chartWidth: number
 ): number {
-  const totalMs = dateRange.end.getTime() - dateRange.start.getTime();
-  const dateMs = date.getTime() - dateRange.start.getTime();
+  const totalMs = visibleMs(dateRange);
+  if (totalMs <= 0) return 0;
+  const dateMs = date.getTime() - dateRange.start.getTime() - hiddenMsBefore(date, dateRange);
   return (dateMs / totalMs) * chartWidth;
 }
 
 /**
  * Convert X pixel position back to a date
+ * A position on a break resolves to the end of the hidden interval, so the
+ * result is always shown time.
  */
 export function xToDate(
   x: number,
   dateRange: DateRange,
   chartWidth: number
 ): Date {
-  const totalMs = dateRange.end.getTime() - dateRange.start.getTime();
-  const dateMs = (x / chartWidth) * totalMs;
-  return new Date(dateRange.start.getTime() + dateMs);
+  const { shownBefore, hiddenBefore } = getHiddenIndex(dateRange);
+  const shownMs = (x / chartWidth) * visibleMs(dateRange);
+  const count = countWhile(shownBefore, (shown) => shown <= shownMs);
+  return new Date(dateRange.start.getTime() + shownMs + hiddenBefore[count]);
 }
 
 /**
@@ -72,30 +152,45 @@ export function calculateBarWidth(
 
 /**
  * Snap X position to grid based on view mode
+ * Hour view snaps to the nearest `snapInterval` minutes, quarter view to the
+ * week (starting on `firstDayOfWeek`), year view to the month and other views
+ * to the day
  */
 export function snapToGrid(
   x: number,
   dateRange: DateRange,
   chartWidth: number,
-  viewMode: ViewMode
+  viewMode: ViewMode,
+  snapInterval = 60,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
 ): number {
   const date = xToDate(x, dateRange, chartWidth);
   let snappedDate: Date;
 
   switch (viewMode) {
+    case 'hour':
+      snappedDate = roundToMinutes(date, snapInterval, timeZone);
+      break;
     case 'day':
-      snappedDate = startOfDay(date);
+      snappedDate = startOfDay(date, timeZone);
       break;
     case 'week':
       // Snap to nearest day
-      snappedDate = startOfDay(date);
+      snappedDate = startOfDay(date, timeZone);
       break;
     case 'month':
       // Snap to nearest day
-      snappedDate = startOfDay(date);
+      snappedDate = startOfDay(date, timeZone);
+      break;
+    case 'quarter':
+      snappedDate = startOfWeek(date, firstDayOfWeek, timeZone);
+      break;
+    case 'year':
+      snappedDate = startOfMonth(date, timeZone);
       break;
     default:
-      snappedDate = startOfDay(date);
+      snappedDate = startOfDay(date, timeZone);
   }
 
   return dateToX(snappedDate, dateRange, chartWidth);
@@ -134,20 +229,96 @@ function flattenTasks(
   return result;
 }
 
+/**
+ * Roll up group dates and progress from their children
+ *
+ * Each group with children spans from the earliest child start to the latest
+ * child end; its progress is the children's progress weighted by duration.
+ * Nested groups are rolled up first. `overrides` replaces the dates of
+ * individual tasks (e.g. a drag preview) before rolling up.
+ * Only group tasks are changed.
+ */
+export function rollupGroupTasks(
+  tasks: GanttTask[],
+  overrides?: Map<string, TaskDateRange>
+): GanttTask[] {
+  const childrenOf = new Map<string, GanttTask[]>();
+  tasks.forEach((task) => {
+    if (task.parentId) {
+      childrenOf.set(task.parentId, [...(childrenOf.get(task.parentId) ?? []), task]);
+    }
+  });
+
+  const rolled = new Map<string, GanttTask>();
+
+  function resolve(task: GanttTask, visiting: Set<string>): GanttTask {
+    const cached = rolled.get(task.id);
+    if (cached) return cached;
+
+    const override = overrides?.get(task.id);
+    const children = childrenOf.get(task.id) ?? [];
+    let result: GanttTask =
+      override && task.type !== 'group' ? { ...task, start: override.start, end: override.end } : task;
+
+    if (task.type === 'group' && children.length > 0 && !visiting.has(task.id)) {
+      visiting.add(task.id);
+      const resolvedChildren = children.map((child) => resolve(child, visiting));
+      visiting.delete(task.id);
+
+      let start = resolvedChildren[0].start;
+      let end = resolvedChildren[0].end;
+      let weighted = 0;
+      let totalDuration = 0;
+
+      resolvedChildren.forEach((child) => {
+        if (child.start < start) start = child.start;
+        if (child.end > end) end = child.end;
+        const duration = Math.max(0, child.end.getTime() - child.start.getTime());
+        weighted += child.progress * duration;
+        totalDuration += duration;
+      });
+
+      const progress =
+        totalDuration > 0
+          ? weighted / totalDuration
+          : resolvedChildren.reduce((sum, child) => sum + child.progress, 0) / resolvedChildren.length;
+
+      result = { ...task, start, end, progress: Math.round(progress * 10) / 10 };
+    }
+
+    rolled.set(task.id, result);
+    return result;
+  }
+
+  return tasks.map((task) => {
+    const resolved = resolve(task, new Set());
+    // Non-group tasks keep their own dates - overrides only feed the roll-up
+    return task.type === 'group' ? resolved : task;
+  });
+}
+
 /**
  * Compute all task positions
  *
  * This function calculates X, width, and row positions for all tasks
- * including their baseline bars.
+ * including their baseline bars. When a critical path result is passed,
+ * its schedule data is attached; its critical flags replace the hand-set
+ * ones when `config.autoCriticalPath` is on, and `config.showSlack` adds
+ * slack bar positions.
+ * With `config.rollupGroups`, group bars are rolled up from their children,
+ * using `previewDates` (e.g. a drag in progress) where given.
  */
 export function computeTaskPositions(
   tasks: GanttTask[],
   dateRange: DateRange,
   chartWidth: number,
-  _config: GanttConfig,
-  collapsedIds: Set<string> = new Set()
+  config: GanttConfig,
+  collapsedIds: Set<string> = new Set(),
+  criticalPath?: CriticalPathResult | null,
+  previewDates?: Map<string, TaskDateRange>
 ): ComputedTask[] {
-  const flatTasks = flattenTasks(tasks, collapsedIds);
+  const sourceTasks = config.rollupGroups ? rollupGroupTasks(tasks, previewDates) : tasks;
+  const flatTasks = flattenTasks(sourceTasks, collapsedIds);
 
   let visibleRowIndex = 0;
 
@@ -174,8 +345,30 @@ export function computeTaskPositions(
       visibleRowIndex++;
     }
 
+    const schedule = criticalPath?.tasks.get(task.id);
+    const constraintX =
+      isDateConstraint(task.constraintType) && task.constraintDate
+        ? dateToX(task.constraintDate, dateRange, chartWidth)
+        : undefined;
+
+    const deadlineX = task.deadline ? dateToX(task.deadline, dateRange, chartWidth) : undefined;
+
+    // Slack runs from the task end to its late finish
+    let slackX: number | undefined;
+    let slackWidth: number | undefined;
+
+    if (config.showSlack && schedule && !schedule.isCritical && task.type !== 'group') {
+      const endX = dateToX(task.end, dateRange, chartWidth);
+      const lateFinishX = dateToX(schedule.lateFinish, dateRange, chartWidth);
+      if (lateFinishX > endX) {
+        slackX = endX;
+        slackWidth = lateFinishX - endX;
+      }
+    }
+
     return {
       ...task,
+      isCritical: schedule && config.autoCriticalPath ? schedule.isCritical : task.isCritical,
       x,
       width,
       rowIndex,
@@ -184,6 +377,13 @@ export function computeTaskPositions(
       level,
       isCollapsed: collapsedIds.has(task.id),
       isVisible,
+      schedule,
+      constraintX,
+      constraintViolation: getConstraintViolation(task, task.start, task.end, config.timeZone, schedule?.lateStart),
+      deadlineX,
+      isOverdue: task.deadline ? task.end > task.deadline : false,
+      slackX,
+      slackWidth,
     };
   });
 }
@@ -240,6 +440,10 @@ export interface BarDimensions {
     height: number;
     y: number;
   };
+  slackBar: {
+    height: number;
+    y: number;
+  };
 }
 
 export function getBarDimensions(
@@ -248,6 +452,8 @@ export function getBarDimensions(
 ): BarDimensions {
   const taskBarHeight = Math.min(rowHeight * 0.45, 20);
   const baselineBarHeight = Math.min(rowHeight * 0.2, 8);
+  const slackBarHeight = Math.max(2, Math.round(taskBarHeight * 0.2));
+  const taskBarY = getTaskBarY(rowIndex, rowHeight, taskBarHeight);
 
   return {
     taskBar: {
@@ -264,6 +470,10 @@ export function getBarDimensions(
       height: taskBarHeight,
       y: getTaskBarY(rowIndex, rowHeight, taskBarHeight),
     },
+    slackBar: {
+      height: slackBarHeight,
+      y: taskBarY + (taskBarHeight - slackBarHeight) / 2,
+    },
   };
 }
 
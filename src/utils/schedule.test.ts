@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { computeCriticalPath, propagateDateChange, createDateChangePropagator } from './schedule';
+import type { GanttTask, GanttDependency, DependencyType } from '../types';
+
+const day = (n: number) => new Date(2024, 0, n);
+
+function task(id: string, start: number, end: number, extra: Partial<GanttTask> = {}): GanttTask {
+  return { id, name: id, type: 'task', start: day(start), end: day(end), progress: 0, ...extra };
+}
+
+function link(fromId: string, toId: string, type: DependencyType = 'finish-to-start', lag?: number): GanttDependency {
+  return { fromId, toId, type, lag };
+}
+
+describe('computeCriticalPath', () => {
+  it('derives early and late dates and float from the forward and backward passes', () => {
+    const tasks = [task('a', 1, 3), task('b', 3, 8), task('c', 1, 2)];
+    const result = computeCriticalPath(tasks, [link('a', 'b'), link('c', 'b')]);
+
+    expect(result.projectStart).toEqual(day(1));
+    expect(result.projectFinish).toEqual(day(8));
+
+    expect(result.tasks.get('a')).toMatchObject({ totalFloat: 0, isCritical: true });
+    expect(result.tasks.get('b')).toMatchObject({
+      earlyStart: day(3),
+      earlyFinish: day(8),
+      lateStart: day(3),
+      lateFinish: day(8),
+      isCritical: true,
+    });
+    expect(result.tasks.get('c')).toMatchObject({
+      earlyFinish: day(2),
+      lateStart: day(2),
+      lateFinish: day(3),
+      totalFloat: 1,
+      freeFloat: 1,
+      isCritical: false,
+    });
+
+    expect(result.criticalDependencyIds).toEqual(new Set(['a-b']));
+  });
+
+  it('starts a successor no earlier than its predecessors allow', () => {
+    const result = computeCriticalPath([task('a', 1, 3), task('b', 1, 2)], [link('a', 'b')]);
+    expect(result.tasks.get('b')).toMatchObject({ earlyStart: day(3), earlyFinish: day(4) });
+  });
+
+  it('honors every dependency type', () => {
+    const cases: Array<[DependencyType, GanttTask, GanttTask, number]> = [
+      ['start-to-start', task('a', 1, 5), task('b', 1, 3), 1],
+      ['finish-to-finish', task('a', 1, 5), task('b', 1, 2), 4],
+      ['start-to-finish', task('a', 3, 5), task('b', 1, 2), 2],
+    ];
+
+    for (const [type, a, b, expectedStart] of cases) {
+      const result = computeCriticalPath([a, b], [link('a', 'b', type)]);
+      expect(result.tasks.get('b')?.earlyStart).toEqual(day(expectedStart));
+    }
+  });
+
+  it('applies lag and lead', () => {
+    const lag = computeCriticalPath([task('a', 1, 5), task('b', 1, 3)], [link('a', 'b', 'start-to-start', 2)]);
+    expect(lag.tasks.get('b')).toMatchObject({ earlyStart: day(3), earlyFinish: day(5) });
+
+    const lead = computeCriticalPath([task('a', 1, 3), task('b', 1, 4)], [link('a', 'b', 'finish-to-start', -1)]);
+    expect(lead.tasks.get('b')).toMatchObject({ earlyStart: day(2), earlyFinish: day(5) });
+  });
+
+  it('leaves tasks in a dependency cycle out of the result', () => {
+    const tasks = [task('a', 1, 2), task('b', 2, 3), task('c', 1, 4)];
+    const result = computeCriticalPath(tasks, [link('a', 'b'), link('b', 'a')]);
+
+    expect(result.tasks.has('a')).toBe(false);
+    expect(result.tasks.has('b')).toBe(false);
+    expect(result.tasks.get('c')?.isCritical).toBe(true);
+  });
+
+  it('gives group tasks the float of their most critical child', () => {
+    const tasks = [
+      task('group', 1, 10, { type: 'group' }),
+      task('x', 1, 3, { parentId: 'group' }),
+      task('y', 1, 2, { parentId: 'group' }),
+      task('outer', 1, 10, { type: 'group' }),
+      task('inner', 1, 10, { type: 'group', parentId: 'outer' }),
+      task('z', 1, 10, { parentId: 'inner' }),
+    ];
+    const result = computeCriticalPath(tasks, []);
+
+    expect(result.tasks.get('group')).toMatchObject({ totalFloat: 7, freeFloat: 7, isCritical: false });
+    expect(result.tasks.get('outer')).toMatchObject({ totalFloat: 0, isCritical: true });
+  });
+});
+
+describe('propagateDateChange', () => {
+  const tasks = [task('a', 1, 3), task('b', 5, 7), task('c', 7, 8)];
+  const dependencies = [link('a', 'b'), link('b', 'c')];
+
+  it('pushes successors only when a link breaks', () => {
+    const changes = propagateDateChange(tasks, dependencies, 'a', day(4), day(6), 'push');
+    expect(changes.get('b')).toEqual({ start: day(6), end: day(8) });
+    expect(changes.get('c')).toEqual({ start: day(8), end: day(9) });
+
+    const small = propagateDateChange(tasks, dependencies, 'a', day(2), day(4), 'push');
+    expect(small.has('b')).toBe(false);
+  });
+
+  it('pulls successors to the earliest allowed date in strict mode', () => {
+    const changes = propagateDateChange(tasks, dependencies, 'a', day(1), day(2), 'strict');
+    expect(changes.get('b')).toEqual({ start: day(2), end: day(4) });
+    expect(changes.get('c')).toEqual({ start: day(4), end: day(5) });
+  });
+
+  it('gives the same dates when the network is reused across changes', () => {
+    const calendar = { workingDays: [1, 2, 3, 4, 5] };
+    const propagate = createDateChangePropagator(tasks, dependencies, { calendar });
+
+    for (const [start, end] of [[4, 6], [2, 4], [8, 10], [1, 3]]) {
+      expect(propagate('a', day(start), day(end), 'strict')).toEqual(
+        propagateDateChange(tasks, dependencies, 'a', day(start), day(end), 'strict', { calendar })
+      );
+    }
+  });
+});
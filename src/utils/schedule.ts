@@ -0,0 +1,482 @@
+/**
+ * Scheduling utilities - critical path method (CPM) and auto-scheduling
+ *
+ * Runs a forward and backward pass over the dependency network to derive
+ * early/late dates and float for every task, and propagates date changes
+ * to successors. All four dependency types and lag are honored.
+ */
+
+import type {
+  GanttTask,
+  GanttDependency,
+  DependencyType,
+  TaskScheduleInfo,
+  CriticalPathResult,
+  AutoScheduleMode,
+  TaskDateRange,
+  GanttCalendar,
+  GanttResource,
+} from '../types';
+import { createDurationIndex, getTaskCalendar } from './calendar';
+import type { DurationIndex } from './calendar';
+
+// Float at or below this value (in days) counts as zero
+const FLOAT_TOLERANCE = 1e-6;
+
+/**
+ * Stable identifier for a dependency (also used as the arrow key)
+ */
+export function getDependencyId(dep: Pick<GanttDependency, 'fromId' | 'toId'>): string {
+  return `${dep.fromId}-${dep.toId}`;
+}
+
+/**
+ * Options shared by the scheduling functions
+ */
+export interface ScheduleOptions {
+  /** Working-time calendar - durations and lag are then in working days */
+  calendar?: GanttCalendar;
+
+  /** Resources - a task's duration follows its assigned resources' calendars */
+  resources?: GanttResource[];
+
+  /** Time zone days are counted in (default local time) */
+  timeZone?: string;
+}
+
+/**
+ * Internal node used by the scheduling passes (all values in days from origin)
+ */
+interface ScheduleNode {
+  task: GanttTask;
+  /** Calendar the task's own duration is measured in */
+  calendar?: GanttCalendar;
+  duration: number;
+  es: number;
+  ef: number;
+  ls: number;
+  lf: number;
+}
+
+interface ScheduleLink {
+  dep: GanttDependency;
+  lag: number;
+}
+
+/**
+ * Collect dependencies from the `dependencies` prop and from `task.dependencies`
+ * (the latter are treated as finish-to-start with no lag)
+ */
+export function collectDependencies(
+  tasks: GanttTask[],
+  dependencies: GanttDependency[] = []
+): GanttDependency[] {
+  const seen = new Set(dependencies.map(getDependencyId));
+  const result = [...dependencies];
+
+  tasks.forEach((task) => {
+    task.dependencies?.forEach((fromId) => {
+      const dep: GanttDependency = { fromId, toId: task.id, type: 'finish-to-start' };
+      const id = getDependencyId(dep);
+      if (!seen.has(id)) {
+        seen.add(id);
+        result.push(dep);
+      }
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Earliest start of a successor allowed by a single link
+ * (`startForFinish` converts a finish bound into the successor's start)
+ */
+function successorStartBound(
+  pred: Pick<ScheduleNode, 'es' | 'ef'>,
+  type: DependencyType,
+  lag: number,
+  startForFinish: (finish: number) => number
+): number {
+  switch (type) {
+    case 'start-to-start':
+      return pred.es + lag;
+    case 'finish-to-finish':
+      return startForFinish(pred.ef + lag);
+    case 'start-to-finish':
+      return startForFinish(pred.es + lag);
+    case 'finish-to-start':
+    default:
+      return pred.ef + lag;
+  }
+}
+
+/**
+ * Latest finish of a predecessor allowed by a single link
+ * (`finishForStart` converts a start bound into the predecessor's finish)
+ */
+function predecessorFinishBound(
+  succ: Pick<ScheduleNode, 'ls' | 'lf'>,
+  type: DependencyType,
+  lag: number,
+  finishForStart: (start: number) => number
+): number {
+  switch (type) {
+    case 'start-to-start':
+      return finishForStart(succ.ls - lag);
+    case 'finish-to-finish':
+      return succ.lf - lag;
+    case 'start-to-finish':
+      return finishForStart(succ.lf - lag);
+    case 'finish-to-start':
+    default:
+      return succ.ls - lag;
+  }
+}
+
+/**
+ * Slack on a link once both ends are placed at their early dates
+ */
+function linkSlack(pred: ScheduleNode, succ: ScheduleNode, type: DependencyType, lag: number): number {
+  switch (type) {
+    case 'start-to-start':
+      return succ.es - (pred.es + lag);
+    case 'finish-to-finish':
+      return succ.ef - (pred.ef + lag);
+    case 'start-to-finish':
+      return succ.ef - (pred.es + lag);
+    case 'finish-to-start':
+    default:
+      return succ.es - (pred.ef + lag);
+  }
+}
+
+interface ScheduleGraph {
+  taskMap: Map<string, GanttTask>;
+  successors: Map<string, ScheduleLink[]>;
+  predecessors: Map<string, ScheduleLink[]>;
+}
+
+/**
+ * Index links by task, dropping self-links and links to unknown tasks
+ */
+function buildGraph(tasks: GanttTask[], dependencies: GanttDependency[]): ScheduleGraph {
+  const taskMap = new Map(tasks.map((t) => [t.id, t]));
+  const successors = new Map<string, ScheduleLink[]>();
+  const predecessors = new Map<string, ScheduleLink[]>();
+
+  collectDependencies(tasks, dependencies).forEach((dep) => {
+    if (dep.fromId === dep.toId || !taskMap.has(dep.fromId) || !taskMap.has(dep.toId)) return;
+    const link = { dep, lag: dep.lag ?? 0 };
+    successors.set(dep.fromId, [...(successors.get(dep.fromId) ?? []), link]);
+    predecessors.set(dep.toId, [...(predecessors.get(dep.toId) ?? []), link]);
+  });
+
+  return { taskMap, successors, predecessors };
+}
+
+/**
+ * Offset conversions on the project calendar, with durations measured
+ * in each task's own calendar (one duration index per calendar)
+ */
+function createTimeAxis(origin: Date, calendar?: GanttCalendar, timeZone?: string) {
+  const indexes = new Map<GanttCalendar | undefined, DurationIndex>();
+  const indexFor = (taskCalendar?: GanttCalendar) => {
+    let index = indexes.get(taskCalendar);
+    if (!index) {
+      index = createDurationIndex(taskCalendar, timeZone);
+      indexes.set(taskCalendar, index);
+    }
+    return index;
+  };
+
+  const project = indexFor(calendar);
+  const toOffset = (date: Date) => project.getDuration(origin, date);
+  const fromOffset = (offset: number) => project.addDuration(origin, offset);
+  const durationOf = (task: GanttTask, taskCalendar?: GanttCalendar) =>
+    Math.max(0, indexFor(taskCalendar).getDuration(task.start, task.end));
+
+  const shift = (offset: number, days: number, taskCalendar?: GanttCalendar) =>
+    taskCalendar === calendar
+      ? offset + days
+      : toOffset(indexFor(taskCalendar).addDuration(fromOffset(offset), days));
+
+  return { toOffset, fromOffset, shift, durationOf };
+}
+
+/**
+ * Order task IDs so that every predecessor comes before its successors.
+ * Tasks that are part of a cycle are left out.
+ */
+function topologicalOrder(
+  ids: string[],
+  successors: Map<string, ScheduleLink[]>,
+  predecessors: Map<string, ScheduleLink[]>
+): string[] {
+  const inDegree = new Map(ids.map((id) => [id, predecessors.get(id)?.length ?? 0]));
+  const queue = ids.filter((id) => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    successors.get(id)?.forEach(({ dep }) => {
+      const remaining = (inDegree.get(dep.toId) ?? 0) - 1;
+      inDegree.set(dep.toId, remaining);
+      if (remaining === 0) queue.push(dep.toId);
+    });
+  }
+
+  return order;
+}
+
+/**
+ * Give group tasks the float of their most critical descendant - a summary
+ * bar spans its children, so its own dates always leave it without float
+ */
+function deriveGroupFloat(tasks: GanttTask[], info: Map<string, TaskScheduleInfo>): void {
+  const childrenOf = new Map<string, GanttTask[]>();
+  tasks.forEach((task) => {
+    if (task.parentId) {
+      childrenOf.set(task.parentId, [...(childrenOf.get(task.parentId) ?? []), task]);
+    }
+  });
+
+  const visited = new Set<string>();
+  const derive = (task: GanttTask): TaskScheduleInfo | undefined => {
+    if (task.type !== 'group' || visited.has(task.id)) return info.get(task.id);
+    visited.add(task.id);
+
+    const own = info.get(task.id);
+    const children = (childrenOf.get(task.id) ?? [])
+      .map(derive)
+      .filter((child): child is TaskScheduleInfo => child !== undefined);
+    if (!own || children.length === 0) return own;
+
+    const totalFloat = Math.min(...children.map((c) => c.totalFloat));
+    const derived: TaskScheduleInfo = {
+      ...own,
+      totalFloat,
+      freeFloat: Math.min(...children.map((c) => c.freeFloat)),
+      isCritical: totalFloat <= FLOAT_TOLERANCE,
+    };
+    info.set(task.id, derived);
+    return derived;
+  };
+
+  tasks.forEach(derive);
+}
+
+/**
+ * Compute the critical path
+ *
+ * Tasks without predecessors keep their own start; every other task starts
+ * no earlier than its current start or what its predecessors allow.
+ * Tasks caught in a dependency cycle are not scheduled and are absent
+ * from the result. Group tasks take their float from their children.
+ */
+export function computeCriticalPath(
+  tasks: GanttTask[],
+  dependencies: GanttDependency[] = [],
+  options: ScheduleOptions = {}
+): CriticalPathResult {
+  const { calendar, resources = [], timeZone } = options;
+  const { taskMap, successors, predecessors } = buildGraph(tasks, dependencies);
+
+  const result: CriticalPathResult = {
+    tasks: new Map(),
+    criticalDependencyIds: new Set(),
+    projectStart: tasks[0]?.start ?? new Date(),
+    projectFinish: tasks[0]?.end ?? new Date(),
+  };
+  if (tasks.length === 0) return result;
+
+  const origin = tasks.reduce((min, t) => (t.start < min ? t.start : min), tasks[0].start);
+  const { toOffset, fromOffset, shift, durationOf } = createTimeAxis(origin, calendar, timeZone);
+
+  const order = topologicalOrder(
+    tasks.map((t) => t.id),
+    successors,
+    predecessors
+  );
+  const nodes = new Map<string, ScheduleNode>();
+
+  // Forward pass
+  order.forEach((id) => {
+    const task = taskMap.get(id)!;
+    const taskCalendar = getTaskCalendar(task, resources, calendar);
+    const duration = durationOf(task, taskCalendar);
+    const startForFinish = (finish: number) => shift(finish, -duration, taskCalendar);
+    let es = toOffset(task.start);
+
+    predecessors.get(id)?.forEach(({ dep, lag }) => {
+      const pred = nodes.get(dep.fromId);
+      if (pred) es = Math.max(es, successorStartBound(pred, dep.type, lag, startForFinish));
+    });
+
+    const ef = shift(es, duration, taskCalendar);
+    nodes.set(id, { task, calendar: taskCalendar, duration, es, ef, ls: 0, lf: 0 });
+  });
+
+  if (nodes.size === 0) return result;
+  const projectFinish = Math.max(...Array.from(nodes.values(), (n) => n.ef));
+
+  // Backward pass
+  [...order].reverse().forEach((id) => {
+    const node = nodes.get(id)!;
+    const finishForStart = (start: number) => shift(start, node.duration, node.calendar);
+    let lf = projectFinish;
+
+    successors.get(id)?.forEach(({ dep, lag }) => {
+      const succ = nodes.get(dep.toId);
+      if (succ) lf = Math.min(lf, predecessorFinishBound(succ, dep.type, lag, finishForStart));
+    });
+
+    node.lf = lf;
+    node.ls = shift(lf, -node.duration, node.calendar);
+  });
+
+  // Float and critical flags
+  nodes.forEach((node, id) => {
+    const totalFloat = Math.max(0, node.ls - node.es);
+    let freeFloat = projectFinish - node.ef;
+
+    successors.get(id)?.forEach(({ dep, lag }) => {
+      const succ = nodes.get(dep.toId);
+      if (!succ) return;
+      const slack = linkSlack(node, succ, dep.type, lag);
+      freeFloat = Math.min(freeFloat, slack);
+
+      if (slack <= FLOAT_TOLERANCE && node.ls - node.es <= FLOAT_TOLERANCE && succ.ls - succ.es <= FLOAT_TOLERANCE) {
+        result.criticalDependencyIds.add(getDependencyId(dep));
+      }
+    });
+
+    const info: TaskScheduleInfo = {
+      earlyStart: fromOffset(node.es),
+      earlyFinish: fromOffset(node.ef),
+      lateStart: fromOffset(node.ls),
+      lateFinish: fromOffset(node.lf),
+      totalFloat,
+      freeFloat: Math.max(0, freeFloat),
+      isCritical: totalFloat <= FLOAT_TOLERANCE,
+    };
+    result.tasks.set(id, info);
+  });
+
+  deriveGroupFloat(tasks, result.tasks);
+
+  result.projectStart = origin;
+  result.projectFinish = fromOffset(projectFinish);
+
+  return result;
+}
+
+/**
+ * Propagate a date change through the dependency network
+ *
+ * Every task downstream of `taskId` is re-placed according to its links:
+ * - `push`: a successor only moves later, and only when a link would be broken
+ * - `strict`: a successor is pushed or pulled to the earliest date its links allow
+ *
+ * Durations are kept. Returns the new dates of every task that moved,
+ * including the changed task itself.
+ */
+export function propagateDateChange(
+  tasks: GanttTask[],
+  dependencies: GanttDependency[],
+  taskId: string,
+  newStart: Date,
+  newEnd: Date,
+  mode: AutoScheduleMode = 'push',
+  options: ScheduleOptions = {}
+): Map<string, TaskDateRange> {
+  if (mode === 'none') return new Map([[taskId, { start: newStart, end: newEnd }]]);
+  return createDateChangePropagator(tasks, dependencies, options)(taskId, newStart, newEnd, mode);
+}
+
+/**
+ * Create a `propagateDateChange` for a fixed set of tasks and dependencies
+ *
+ * The dependency graph, task order and time axis are built once, so calling
+ * it for every mouse move of a drag only re-places the downstream tasks.
+ */
+export function createDateChangePropagator(
+  tasks: GanttTask[],
+  dependencies: GanttDependency[] = [],
+  options: ScheduleOptions = {}
+): (taskId: string, newStart: Date, newEnd: Date, mode?: AutoScheduleMode) => Map<string, TaskDateRange> {
+  const { calendar, resources = [], timeZone } = options;
+  const { taskMap, successors, predecessors } = buildGraph(tasks, dependencies);
+  const order = topologicalOrder(
+    tasks.map((t) => t.id),
+    successors,
+    predecessors
+  );
+
+  const origin = tasks.reduce((min, t) => (t.start < min ? t.start : min), tasks[0]?.start ?? new Date());
+  const { toOffset, fromOffset, shift, durationOf } = createTimeAxis(origin, calendar, timeZone);
+
+  // Calendar, duration and current start of each task, measured on first use
+  const placements = new Map<string, { calendar?: GanttCalendar; duration: number; start: number }>();
+  const placementOf = (task: GanttTask) => {
+    let placement = placements.get(task.id);
+    if (!placement) {
+      const taskCalendar = getTaskCalendar(task, resources, calendar);
+      placement = { calendar: taskCalendar, duration: durationOf(task, taskCalendar), start: toOffset(task.start) };
+      placements.set(task.id, placement);
+    }
+    return placement;
+  };
+
+  return (taskId, newStart, newEnd, mode = 'push') => {
+    const changes = new Map<string, TaskDateRange>([[taskId, { start: newStart, end: newEnd }]]);
+    if (mode === 'none' || !taskMap.has(taskId)) return changes;
+
+    // Collect everything reachable from the changed task
+    const downstream = new Set<string>();
+    const stack = [taskId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      successors.get(id)?.forEach(({ dep }) => {
+        if (!downstream.has(dep.toId) && dep.toId !== taskId) {
+          downstream.add(dep.toId);
+          stack.push(dep.toId);
+        }
+      });
+    }
+    if (downstream.size === 0) return changes;
+
+    const offsetsOf = (id: string) => {
+      const moved = changes.get(id);
+      if (moved) return { es: toOffset(moved.start), ef: toOffset(moved.end) };
+      const task = taskMap.get(id)!;
+      return { es: placementOf(task).start, ef: toOffset(task.end) };
+    };
+
+    order.forEach((id) => {
+      if (!downstream.has(id)) return;
+
+      const { calendar: taskCalendar, duration, start: currentStart } = placementOf(taskMap.get(id)!);
+      const startForFinish = (finish: number) => shift(finish, -duration, taskCalendar);
+      let bound = -Infinity;
+
+      predecessors.get(id)?.forEach(({ dep, lag }) => {
+        // Pushing only reacts to predecessors that actually moved
+        if (mode === 'push' && !changes.has(dep.fromId)) return;
+        bound = Math.max(bound, successorStartBound(offsetsOf(dep.fromId), dep.type, lag, startForFinish));
+      });
+
+      if (bound === -Infinity) return;
+      const target = mode === 'strict' ? bound : Math.max(bound, currentStart);
+      if (Math.abs(target - currentStart) <= FLOAT_TOLERANCE) return;
+
+      changes.set(id, {
+        start: fromOffset(target),
+        end: fromOffset(shift(target, duration, taskCalendar)),
+      });
+    });
+
+    return changes;
+  };
+}
@@ -20,8 +20,15 @@ export const defaultTheme: Required<GanttTheme> = {
   baseline: '#d1d5db',          // Light gray for baseline comparison
   critical: '#ef4444',          // Red for critical path
   milestone: '#10b981',         // Green accent for milestones (achievements)
+  constraint: '#8b5cf6',        // Violet for constraint glyphs
+  violation: '#dc2626',         // Deep red for broken constraints
+  deadline: '#f59e0b',          // Amber for deadline markers
+  overdue: '#f97316',           // Orange for bars past their deadline
+  slack: '#14b8a6',             // Teal for total float
   group: '#475569',             // Slate for group/summary bars
   todayMarker: 'rgba(16, 185, 129, 0.15)', // Accent green with transparency
+  marker: '#6366f1',            // Indigo for custom time markers
+  timeRange: '#0ea5e9',         // Sky blue for time range bands
   weekend: 'rgba(0, 0, 0, 0.02)',
   dependency: '#94a3b8',        // Slate for dependency arrows
   tooltipBackground: '#111827', // --text-main (dark)
@@ -44,8 +51,15 @@ export const darkTheme: Required<GanttTheme> = {
   baseline: '#4b5563',          // Medium gray for baseline
   critical: '#f87171',          // Lighter red for dark mode
   milestone: '#34d399',         // Lighter green for milestones
+  constraint: '#a78bfa',        // Lighter violet for dark mode
+  violation: '#f87171',
+  deadline: '#fbbf24',
+  overdue: '#fb923c',
+  slack: '#2dd4bf',
   group: '#6b7280',             // Gray for groups
   todayMarker: 'rgba(52, 211, 153, 0.2)', // Green with transparency
+  marker: '#818cf8',
+  timeRange: '#38bdf8',
   weekend: 'rgba(255, 255, 255, 0.02)',
   dependency: '#6b7280',
   tooltipBackground: '#374151',
@@ -77,8 +91,15 @@ export function themeToCssVars(theme: Required<GanttTheme>): Record<string, stri
     '--gantt-baseline': theme.baseline,
     '--gantt-critical': theme.critical,
     '--gantt-milestone': theme.milestone,
+    '--gantt-constraint': theme.constraint,
+    '--gantt-violation': theme.violation,
+    '--gantt-deadline': theme.deadline,
+    '--gantt-overdue': theme.overdue,
+    '--gantt-slack': theme.slack,
     '--gantt-group': theme.group,
     '--gantt-today-marker': theme.todayMarker,
+    '--gantt-marker': theme.marker,
+    '--gantt-time-range': theme.timeRange,
     '--gantt-weekend': theme.weekend,
     '--gantt-dependency': theme.dependency,
     '--gantt-tooltip-background': theme.tooltipBackground,
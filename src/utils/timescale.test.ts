@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { generateTimescaleCells } from './timescale';
+import { dateToX } from './position';
+import { diffInDays } from './date';
+import { fromZonedParts, getZonedParts } from './timezone';
+import type { DateRange, FiscalCalendar, TimescaleUnit } from '../types';
+
+const ZONES = ['Europe/Berlin', 'America/New_York', 'UTC'];
+
+function rangeIn(zone: string, from: [number, number, number], to: [number, number, number]): DateRange {
+  const start = fromZonedParts({ year: from[0], month: from[1], day: from[2] }, zone);
+  const end = fromZonedParts({ year: to[0], month: to[1], day: to[2] }, zone);
+  return { start, end, totalDays: diffInDays(start, end, zone) };
+}
+
+// Every top-tier cell edge inside the range is also a bottom-tier cell edge
+function expectAligned(
+  range: DateRange,
+  top: TimescaleUnit,
+  bottom: TimescaleUnit,
+  zone: string,
+  fiscal?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1
+) {
+  const width = 1000;
+  const edgesOf = (unit: TimescaleUnit) =>
+    generateTimescaleCells(range, unit, firstDayOfWeek, fiscal, zone).flatMap((cell) => [cell.start, cell.end]);
+
+  const bottomXs = new Set(edgesOf(bottom).map((date) => dateToX(date, range, width)));
+  const topEdges = edgesOf(top).filter((date) => date > range.start && date < range.end);
+
+  expect(topEdges.length).toBeGreaterThan(0);
+  for (const edge of topEdges) {
+    expect(bottomXs.has(dateToX(edge, range, width))).toBe(true);
+  }
+}
+
+describe('generateTimescaleCells', () => {
+  it('covers the range with back-to-back cells', () => {
+    const range = rangeIn('UTC', [2024, 0, 10], [2024, 3, 20]);
+    const cells = generateTimescaleCells(range, 'month', 1, undefined, 'UTC');
+
+    expect(cells[0].start).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(cells[cells.length - 1].end).toEqual(new Date('2024-05-01T00:00:00Z'));
+    cells.slice(1).forEach((cell, i) => expect(cell.start).toEqual(cells[i].end));
+  });
+
+  it('starts week cells on the first day of the week', () => {
+    const range = rangeIn('UTC', [2024, 0, 10], [2024, 1, 10]);
+    const weekday = (firstDayOfWeek: 0 | 1) =>
+      generateTimescaleCells(range, 'week', firstDayOfWeek, undefined, 'UTC').map(
+        (cell) => getZonedParts(cell.start, 'UTC').weekday
+      );
+
+    expect(new Set(weekday(1))).toEqual(new Set([1]));
+    expect(new Set(weekday(0))).toEqual(new Set([0]));
+  });
+
+  it('lines up calendar tiers across DST changes', () => {
+    for (const zone of ZONES) {
+      const range = rangeIn(zone, [2023, 11, 20], [2025, 1, 10]);
+      expectAligned(range, 'year', 'quarter', zone);
+      expectAligned(range, 'quarter', 'month', zone);
+      expectAligned(range, 'month', 'day', zone);
+      expectAligned(range, 'week', 'day', zone);
+
+      const days = rangeIn(zone, [2024, 2, 29], [2024, 3, 2]);
+      expectAligned(days, 'day', 'hour', zone);
+    }
+  });
+
+  it('lines up decades with years', () => {
+    expectAligned(rangeIn('UTC', [2015, 0, 1], [2035, 0, 1]), 'decade', 'year', 'UTC');
+  });
+
+  it('lines up fiscal tiers', () => {
+    const range = rangeIn('UTC', [2023, 0, 1], [2026, 0, 1]);
+    const calendarYear = { startMonth: 3 };
+    expectAligned(range, 'fiscal-year', 'fiscal-quarter', 'UTC', calendarYear);
+    expectAligned(range, 'fiscal-quarter', 'month', 'UTC', calendarYear);
+
+    for (const firstDayOfWeek of [0, 1] as const) {
+      const retail = { startMonth: 1, pattern: '4-4-5' as const };
+      expectAligned(range, 'fiscal-year', 'fiscal-quarter', 'UTC', retail, firstDayOfWeek);
+      expectAligned(range, 'fiscal-quarter', 'fiscal-period', 'UTC', retail, firstDayOfWeek);
+      expectAligned(range, 'fiscal-period', 'week', 'UTC', retail, firstDayOfWeek);
+    }
+  });
+});
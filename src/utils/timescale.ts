@@ -0,0 +1,218 @@
+/**
+ * Timescale utilities - the header tiers above the timeline
+ *
+ * Each tier splits the date range into cells of one calendar unit
+ * (years, quarters, ISO weeks, ...). Cells are positioned with `dateToX`
+ * so every tier lines up with the task bars.
+ */
+
+import type { ViewMode, DateRange, TimescaleUnit, TimescaleTier, FiscalCalendar } from '../types';
+import {
+  startOfHour,
+  startOfDay,
+  startOfWeek,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  addHours,
+  addDays,
+  addMonths,
+  formatDate,
+  getMonthName,
+  getQuarter,
+  getWeekNumber,
+} from './date';
+import { getZonedParts, fromZonedParts } from './timezone';
+import { getFiscalUnitRange, formatFiscalLabel } from './fiscal';
+import type { FiscalUnit } from './fiscal';
+
+const FISCAL_UNITS: Partial<Record<TimescaleUnit, FiscalUnit>> = {
+  'fiscal-period': 'period',
+  'fiscal-quarter': 'quarter',
+  'fiscal-year': 'year',
+};
+
+/**
+ * Start of the unit containing a date
+ */
+export function startOfUnit(
+  date: Date,
+  unit: TimescaleUnit,
+  firstDayOfWeek: 0 | 1 = 1,
+  fiscalCalendar?: FiscalCalendar,
+  timeZone?: string
+): Date {
+  switch (unit) {
+    case 'hour':
+      return startOfHour(date, timeZone);
+    case 'day':
+      return startOfDay(date, timeZone);
+    case 'week':
+      return startOfWeek(date, firstDayOfWeek, timeZone);
+    case 'month':
+      return startOfMonth(date, timeZone);
+    case 'quarter':
+      return startOfQuarter(date, timeZone);
+    case 'year':
+      return startOfYear(date, timeZone);
+    case 'decade': {
+      const year = getZonedParts(date, timeZone).year;
+      return fromZonedParts({ year: Math.floor(year / 10) * 10, month: 0 }, timeZone);
+    }
+    case 'fiscal-period':
+    case 'fiscal-quarter':
+    case 'fiscal-year':
+      return getFiscalUnitRange(date, FISCAL_UNITS[unit]!, fiscalCalendar, firstDayOfWeek, timeZone).start;
+  }
+}
+
+/**
+ * Add a number of units to a date
+ * Fiscal units vary in length, so they step from boundary to boundary
+ */
+export function addUnits(
+  date: Date,
+  unit: TimescaleUnit,
+  amount: number,
+  fiscalCalendar?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): Date {
+  switch (unit) {
+    case 'hour':
+      return addHours(date, amount);
+    case 'day':
+      return addDays(date, amount, timeZone);
+    case 'week':
+      return addDays(date, amount * 7, timeZone);
+    case 'month':
+      return addMonths(date, amount, timeZone);
+    case 'quarter':
+      return addMonths(date, amount * 3, timeZone);
+    case 'year':
+      return addMonths(date, amount * 12, timeZone);
+    case 'decade':
+      return addMonths(date, amount * 120, timeZone);
+    case 'fiscal-period':
+    case 'fiscal-quarter':
+    case 'fiscal-year': {
+      const fiscalUnit = FISCAL_UNITS[unit]!;
+      let result = date;
+      for (let i = 0; i < Math.abs(amount); i++) {
+        // Stepping back starts from the instant before the current boundary
+        const from = amount > 0 ? result : new Date(result.getTime() - 1);
+        const range = getFiscalUnitRange(from, fiscalUnit, fiscalCalendar, firstDayOfWeek, timeZone);
+        result = amount > 0 ? range.end : range.start;
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Default cell label for a unit, e.g. "W12" for ISO weeks, "Q3" for quarters
+ * or "FY27 Q1" for fiscal quarters
+ */
+export function formatTimescaleLabel(
+  date: Date,
+  unit: TimescaleUnit,
+  locale = 'en-US',
+  fiscalCalendar?: FiscalCalendar,
+  firstDayOfWeek: 0 | 1 = 1,
+  timeZone?: string
+): string {
+  switch (unit) {
+    case 'hour':
+      return formatDate(date, 'hour', locale, timeZone);
+    case 'day':
+      return String(getZonedParts(date, timeZone).day);
+    case 'week':
+      return `W${getWeekNumber(date, timeZone)}`;
+    case 'month':
+      return getMonthName(date, locale, 'short', timeZone);
+    case 'quarter':
+      return `Q${getQuarter(date, timeZone)}`;
+    case 'year':
+      return String(getZonedParts(date, timeZone).year);
+    case 'decade':
+      return `${getZonedParts(date, timeZone).year}s`;
+    case 'fiscal-period':
+    case 'fiscal-quarter':
+    case 'fiscal-year':
+      return formatFiscalLabel(date, FISCAL_UNITS[unit]!, fiscalCalendar, firstDayOfWeek, timeZone);
+  }
+}
+
+/**
+ * Split a date range into consecutive cells of one unit
+ * The first and last cells may extend past the range.
+ */
+export function generateTimescaleCells(
+  dateRange: DateRange,
+  unit: TimescaleUnit,
+  firstDayOfWeek: 0 | 1 = 1,
+  fiscalCalendar?: FiscalCalendar,
+  timeZone?: string
+): Array<{ start: Date; end: Date }> {
+  const cells: Array<{ start: Date; end: Date }> = [];
+  let current = startOfUnit(dateRange.start, unit, firstDayOfWeek, fiscalCalendar, timeZone);
+
+  while (current < dateRange.end) {
+    const next = addUnits(current, unit, 1, fiscalCalendar, firstDayOfWeek, timeZone);
+    cells.push({ start: current, end: next });
+    current = next;
+  }
+
+  return cells;
+}
+
+/**
+ * Header tiers used when no `timescale` is configured
+ * With a fiscal calendar, month, quarter and year views group by fiscal units
+ */
+export function getDefaultTimescale(viewMode: ViewMode, fiscalCalendar?: FiscalCalendar): TimescaleTier[] {
+  const monthYear: TimescaleTier = {
+    unit: 'month',
+    format: (date, locale, timeZone) =>
+      `${getMonthName(date, locale, 'short', timeZone)} ${getZonedParts(date, timeZone).year}`,
+  };
+
+  if (fiscalCalendar) {
+    const isWeekBased = (fiscalCalendar.pattern ?? 'calendar') !== 'calendar';
+    switch (viewMode) {
+      case 'month':
+        return [
+          { unit: 'fiscal-quarter' },
+          isWeekBased
+            ? { unit: 'fiscal-period' }
+            : { unit: 'month', format: (date, locale, timeZone) => formatDate(date, 'month', locale, timeZone) },
+        ];
+      case 'quarter':
+        return [{ unit: 'fiscal-year' }, { unit: 'fiscal-quarter' }];
+      case 'year':
+        return [{ unit: 'fiscal-year' }];
+    }
+  }
+
+  switch (viewMode) {
+    case 'hour':
+      return [
+        {
+          unit: 'day',
+          format: (date, locale, timeZone) =>
+            date.toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric', timeZone }),
+        },
+        { unit: 'hour' },
+      ];
+    case 'day':
+      return [monthYear, { unit: 'day', format: (date, locale, timeZone) => formatDate(date, 'day', locale, timeZone) }];
+    case 'week':
+      return [monthYear, { unit: 'week', format: (date, locale, timeZone) => formatDate(date, 'week', locale, timeZone) }];
+    case 'month':
+      return [{ unit: 'month', format: (date, locale, timeZone) => formatDate(date, 'month', locale, timeZone) }];
+    case 'quarter':
+      return [{ unit: 'year' }, { unit: 'quarter' }];
+    case 'year':
+      return [{ unit: 'decade' }, { unit: 'year' }];
+  }
+}
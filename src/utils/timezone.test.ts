@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { getZonedParts, fromZonedParts, getTimeZoneOffset, toWallTime, fromWallTime } from './timezone';
+
+const HOUR = 60 * 60 * 1000;
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe('getZonedParts', () => {
+  it('reads wall-clock parts in a zone', () => {
+    expect(getZonedParts(utc('2024-07-01T22:30:00'), 'Europe/Berlin')).toMatchObject({
+      year: 2024,
+      month: 6,
+      day: 2,
+      hour: 0,
+      minute: 30,
+      weekday: 2,
+    });
+    expect(getZonedParts(utc('2024-07-01T02:00:00'), 'America/New_York')).toMatchObject({
+      month: 5,
+      day: 30,
+      hour: 22,
+      weekday: 0,
+    });
+  });
+
+  it('uses the UTC getters for UTC', () => {
+    expect(getZonedParts(utc('2024-12-31T23:59:59'), 'UTC')).toMatchObject({
+      year: 2024,
+      month: 11,
+      day: 31,
+      hour: 23,
+      weekday: 2,
+    });
+  });
+});
+
+describe('getTimeZoneOffset', () => {
+  it('follows DST in Europe/Berlin', () => {
+    expect(getTimeZoneOffset(utc('2024-03-31T00:59:00'), 'Europe/Berlin')).toBe(1 * HOUR);
+    expect(getTimeZoneOffset(utc('2024-03-31T01:00:00'), 'Europe/Berlin')).toBe(2 * HOUR);
+    expect(getTimeZoneOffset(utc('2024-10-27T00:59:00'), 'Europe/Berlin')).toBe(2 * HOUR);
+    expect(getTimeZoneOffset(utc('2024-10-27T01:00:00'), 'Europe/Berlin')).toBe(1 * HOUR);
+  });
+
+  it('follows DST in America/New_York', () => {
+    expect(getTimeZoneOffset(utc('2024-03-10T06:59:00'), 'America/New_York')).toBe(-5 * HOUR);
+    expect(getTimeZoneOffset(utc('2024-03-10T07:00:00'), 'America/New_York')).toBe(-4 * HOUR);
+    expect(getTimeZoneOffset(utc('2024-11-03T05:59:00'), 'America/New_York')).toBe(-4 * HOUR);
+    expect(getTimeZoneOffset(utc('2024-11-03T06:00:00'), 'America/New_York')).toBe(-5 * HOUR);
+  });
+
+  it('is zero for UTC', () => {
+    expect(getTimeZoneOffset(utc('2024-03-31T01:00:00'), 'UTC')).toBe(0);
+  });
+});
+
+describe('fromZonedParts', () => {
+  it('round-trips every hour across the DST changes', () => {
+    const ranges: Array<[string, string]> = [
+      ['Europe/Berlin', '2024-03-30T00:00:00'],
+      ['Europe/Berlin', '2024-10-26T00:00:00'],
+      ['America/New_York', '2024-03-09T00:00:00'],
+      ['America/New_York', '2024-11-02T00:00:00'],
+      ['UTC', '2024-03-30T00:00:00'],
+    ];
+
+    for (const [zone, from] of ranges) {
+      for (let i = 0; i < 72; i++) {
+        const date = new Date(utc(from).getTime() + i * HOUR);
+        const roundTrip = fromZonedParts(getZonedParts(date, zone), zone);
+        // The second pass through a repeated hour comes back as the first
+        const isRepeated = getTimeZoneOffset(new Date(date.getTime() - HOUR), zone) > getTimeZoneOffset(date, zone);
+        expect(roundTrip.getTime()).toBe(isRepeated ? date.getTime() - HOUR : date.getTime());
+      }
+    }
+  });
+
+  it('resolves wall times skipped by spring-forward to the same time after the change', () => {
+    // 02:30 does not exist on these days - the clocks jump from 02:00 to 03:00
+    expect(fromZonedParts({ year: 2024, month: 2, day: 31, hour: 2, minute: 30 }, 'Europe/Berlin')).toEqual(
+      utc('2024-03-31T01:30:00')
+    );
+    expect(fromZonedParts({ year: 2024, month: 2, day: 10, hour: 2, minute: 30 }, 'America/New_York')).toEqual(
+      utc('2024-03-10T07:30:00')
+    );
+  });
+
+  it('resolves wall times repeated by fall-back to their first occurrence', () => {
+    expect(fromZonedParts({ year: 2024, month: 9, day: 27, hour: 2, minute: 30 }, 'Europe/Berlin')).toEqual(
+      utc('2024-10-27T00:30:00')
+    );
+    expect(fromZonedParts({ year: 2024, month: 10, day: 3, hour: 1, minute: 30 }, 'America/New_York')).toEqual(
+      utc('2024-11-03T05:30:00')
+    );
+  });
+
+  it('lets parts overflow like the Date setters', () => {
+    expect(fromZonedParts({ year: 2024, month: 0, day: 32 }, 'UTC')).toEqual(utc('2024-02-01T00:00:00'));
+    expect(fromZonedParts({ year: 2024, month: 12 }, 'Europe/Berlin')).toEqual(utc('2024-12-31T23:00:00'));
+  });
+});
+
+describe('toWallTime / fromWallTime', () => {
+  it('counts a DST-change day as 24 wall-clock hours', () => {
+    const start = fromZonedParts({ year: 2024, month: 2, day: 31 }, 'Europe/Berlin');
+    const end = fromZonedParts({ year: 2024, month: 3, day: 1 }, 'Europe/Berlin');
+    expect(end.getTime() - start.getTime()).toBe(23 * HOUR);
+    expect(toWallTime(end, 'Europe/Berlin') - toWallTime(start, 'Europe/Berlin')).toBe(24 * HOUR);
+  });
+
+  it('round-trips', () => {
+    const date = utc('2024-11-03T05:30:00');
+    expect(fromWallTime(toWallTime(date, 'America/New_York'), 'America/New_York')).toEqual(date);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Time zone utilities
+ *
+ * Wall-clock parts of an instant in an IANA time zone (or 'UTC'), and the
+ * instant for given wall-clock parts. Without a time zone the runtime's
+ * local zone is used, exactly like the plain Date getters and setters.
+ */
+
+/**
+ * Wall-clock parts of a date in a time zone
+ */
+export interface ZonedParts {
+  year: number;
+  /** Month (0 = January ... 11 = December) */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** Day of week (0 = Sunday ... 6 = Saturday) */
+  weekday: number;
+}
+
+/**
+ * Wall-clock parts to build a date from
+ * Values may overflow (day 0, hour 25, ...) like the Date setters
+ */
+export type ZonedDateParts = Pick<ZonedParts, 'year' | 'month'> &
+  Partial<Pick<ZonedParts, 'day' | 'hour' | 'minute' | 'second' | 'millisecond'>>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Intl formatters are expensive to create - one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the wall-clock parts of a date in a time zone
+ */
+export function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+      weekday: date.getDay(),
+    };
+  }
+
+  if (timeZone === 'UTC') {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth(),
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+      weekday: date.getUTCDay(),
+    };
+  }
+
+  const values: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') values[part.type] = Number(part.value);
+  }
+
+  const year = values.year!;
+  const month = values.month! - 1;
+  const day = values.day!;
+  return {
+    year,
+    month,
+    day,
+    hour: values.hour! % 24,
+    minute: values.minute!,
+    second: values.second!,
+    millisecond: date.getUTCMilliseconds(),
+    weekday: utcFromParts({ year, month, day }).getUTCDay(),
+  };
+}
+
+/**
+ * Date whose UTC fields are the given parts
+ */
+function utcFromParts(parts: ZonedDateParts): Date {
+  const result = new Date(0);
+  result.setUTCFullYear(parts.year, parts.month, parts.day ?? 1);
+  result.setUTCHours(parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0, parts.millisecond ?? 0);
+  return result;
+}
+
+/**
+ * Wall-clock time of a date in a time zone, as milliseconds since the epoch
+ * Differences between wall-clock times ignore DST changes - a calendar day is always 24 hours
+ */
+export function toWallTime(date: Date, timeZone?: string): number {
+  return utcFromParts(getZonedParts(date, timeZone)).getTime();
+}
+
+/**
+ * Get the date for a wall-clock time (see `toWallTime`) in a time zone
+ */
+export function fromWallTime(wallTime: number, timeZone?: string): Date {
+  const wall = new Date(wallTime);
+  return fromZonedParts(
+    {
+      year: wall.getUTCFullYear(),
+      month: wall.getUTCMonth(),
+      day: wall.getUTCDate(),
+      hour: wall.getUTCHours(),
+      minute: wall.getUTCMinutes(),
+      second: wall.getUTCSeconds(),
+      millisecond: wall.getUTCMilliseconds(),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Offset of a time zone from UTC at a date, in milliseconds (positive east of UTC)
+ */
+export function getTimeZoneOffset(date: Date, timeZone?: string): number {
+  return toWallTime(date, timeZone) - date.getTime();
+}
+
+/**
+ * Get the date for wall-clock parts in a time zone
+ * Wall times skipped by a DST change resolve to the same time after the change,
+ * and wall times repeated by one resolve to their first occurrence.
+ */
+export function fromZonedParts(parts: ZonedDateParts, timeZone?: string): Date {
+  if (!timeZone) {
+    const result = new Date(0);
+    result.setFullYear(parts.year, parts.month, parts.day ?? 1);
+    result.setHours(parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0, parts.millisecond ?? 0);
+    return result;
+  }
+
+  const wallTime = utcFromParts(parts).getTime();
+  if (timeZone === 'UTC') return new Date(wallTime);
+
+  // The offset depends on the instant we are looking for - refine once
+  const guess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone);
+  const offset = getTimeZoneOffset(new Date(guess), timeZone);
+  const result = wallTime - offset;
+
+  // In a DST gap the offset changes under us; use the offset from before the change
+  const resultOffset = getTimeZoneOffset(new Date(result), timeZone);
+  if (resultOffset !== offset) return new Date(wallTime - Math.min(offset, resultOffset));
+
+  // Wall times repeated when the clocks go back resolve to the first occurrence
+  const earlierOffset = getTimeZoneOffset(new Date(result - MS_PER_DAY), timeZone);
+  if (earlierOffset > offset) {
+    const earlier = wallTime - earlierOffset;
+    if (getTimeZoneOffset(new Date(earlier), timeZone) === earlierOffset) return new Date(earlier);
+  }
+  return new Date(result);
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchedule } from './validation';
+import type { GanttTask, GanttDependency } from '../types';
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+
+function task(id: string, extra: Partial<GanttTask> = {}): GanttTask {
+  return { id, name: id, type: 'task', start: day(1), end: day(2), progress: 0, ...extra };
+}
+
+const link = (fromId: string, toId: string): GanttDependency => ({ fromId, toId, type: 'finish-to-start' });
+
+describe('validateSchedule', () => {
+  it('accepts a sound schedule', () => {
+    const tasks = [
+      task('g', { type: 'group' }),
+      task('a', { parentId: 'g' }),
+      task('b', { dependencies: ['a'] }),
+      task('c'),
+    ];
+    expect(validateSchedule(tasks, [link('b', 'c'), link('a', 'c')])).toEqual([]);
+  });
+
+  it('reports each cycle once with the links that form it', () => {
+    const tasks = ['a', 'b', 'c', 'd', 'e'].map((id) => task(id));
+    // a → b → c → a, and c → d ⇄ e
+    const dependencies = [
+      link('a', 'b'),
+      link('b', 'c'),
+      link('c', 'a'),
+      link('c', 'd'),
+      link('d', 'e'),
+      link('e', 'd'),
+    ];
+    const cycles = validateSchedule(tasks, dependencies);
+
+    expect(cycles.map((d) => d.code)).toEqual(['cycle', 'cycle']);
+    expect(cycles.map((d) => [...d.taskIds].sort())).toEqual([
+      ['d', 'e'],
+      ['a', 'b', 'c'],
+    ]);
+    expect([...cycles[1].dependencyIds].sort()).toEqual(['a-b', 'b-c', 'c-a']);
+    expect(cycles[1]).toMatchObject({ severity: 'error', message: 'Dependency cycle between tasks a, b, c' });
+  });
+
+  it('finds cycles through links listed on the tasks', () => {
+    const tasks = [task('a', { dependencies: ['b'] }), task('b', { dependencies: ['a'] })];
+    expect(validateSchedule(tasks)).toMatchObject([
+      { code: 'cycle', dependencyIds: expect.arrayContaining(['a-b', 'b-a']) },
+    ]);
+  });
+
+  it('reports links to unknown tasks and keeps them out of cycle detection', () => {
+    const diagnostics = validateSchedule([task('a')], [link('a', 'ghost'), link('ghost', 'a')]);
+    expect(diagnostics).toEqual([
+      {
+        code: 'missing-task',
+        severity: 'error',
+        message: 'Dependency a → ghost refers to unknown task ghost',
+        taskIds: ['a'],
+        dependencyIds: ['a-ghost'],
+      },
+      expect.objectContaining({ code: 'missing-task', dependencyIds: ['ghost-a'] }),
+    ]);
+  });
+
+  it('reports self-dependencies', () => {
+    expect(validateSchedule([task('a', { dependencies: ['a'] })])).toEqual([
+      {
+        code: 'self-dependency',
+        severity: 'error',
+        message: 'Task a depends on itself',
+        taskIds: ['a'],
+        dependencyIds: ['a-a'],
+      },
+    ]);
+  });
+
+  it('reports links between a group and its own descendants', () => {
+    const tasks = [
+      task('g', { type: 'group' }),
+      task('sub', { type: 'group', parentId: 'g' }),
+      task('a', { parentId: 'sub' }),
+    ];
+    const diagnostics = validateSchedule(tasks, [link('g', 'a'), link('a', 'g'), link('sub', 'g')]);
+    expect(diagnostics.map((d) => [d.code, d.dependencyIds[0]])).toEqual([
+      ['parent-child', 'g-a'],
+      ['parent-child', 'a-g'],
+      ['parent-child', 'sub-g'],
+    ]);
+  });
+
+  it('warns about duplicate links', () => {
+    const tasks = [task('a'), task('b')];
+    expect(validateSchedule(tasks, [link('a', 'b'), { ...link('a', 'b'), lag: 2 }])).toMatchObject([
+      { code: 'duplicate-dependency', severity: 'warning', dependencyIds: ['a-b'] },
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Dependency validation
+ *
+ * Finds links that cannot be scheduled or drawn: cycles, links to
+ * unknown tasks, self-links, duplicates and links between a group
+ * and its own descendants.
+ */
+
+import type { GanttTask, GanttDependency, ScheduleDiagnostic } from '../types';
+import { collectDependencies, getDependencyId } from './schedule';
+
+/**
+ * Check whether `ancestorId` is a (transitive) parent of a task
+ */
+function isAncestor(
+  ancestorId: string,
+  taskId: string,
+  taskMap: Map<string, GanttTask>
+): boolean {
+  const seen = new Set<string>();
+  let current = taskMap.get(taskId)?.parentId;
+
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = taskMap.get(current)?.parentId;
+  }
+
+  return false;
+}
+
+/**
+ * Find strongly connected components with more than one task (Tarjan)
+ */
+function findCycles(ids: string[], edges: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  function visit(id: string) {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    (edges.get(id) ?? []).forEach((next) => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    });
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  }
+
+  ids.forEach((id) => {
+    if (!index.has(id)) visit(id);
+  });
+
+  return cycles;
+}
+
+/**
+ * Validate tasks and dependencies
+ *
+ * Dependencies listed in `task.dependencies` are checked as well.
+ * Returns an empty array when the schedule is sound.
+ */
+export function validateSchedule(
+  tasks: GanttTask[],
+  dependencies: GanttDependency[] = []
+): ScheduleDiagnostic[] {
+  const diagnostics: ScheduleDiagnostic[] = [];
+  const taskMap = new Map(tasks.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  const edges = new Map<string, string[]>();
+  const linkIds = new Map<string, string>();
+
+  collectDependencies(tasks, dependencies).forEach((dep) => {
+    const id = getDependencyId(dep);
+
+    if (seen.has(id)) {
+      diagnostics.push({
+        code: 'duplicate-dependency',
+        severity: 'warning',
+        message: `Dependency ${dep.fromId} → ${dep.toId} is defined more than once`,
+        taskIds: [dep.fromId, dep.toId],
+        dependencyIds: [id],
+      });
+      return;
+    }
+    seen.add(id);
+
+    const missing = [dep.fromId, dep.toId].filter((taskId) => !taskMap.has(taskId));
+    if (missing.length > 0) {
+      diagnostics.push({
+        code: 'missing-task',
+        severity: 'error',
+        message: `Dependency ${dep.fromId} → ${dep.toId} refers to unknown task ${missing.join(', ')}`,
+        taskIds: [dep.fromId, dep.toId].filter((taskId) => taskMap.has(taskId)),
+        dependencyIds: [id],
+      });
+      return;
+    }
+
+    if (dep.fromId === dep.toId) {
+      diagnostics.push({
+        code: 'self-dependency',
+        severity: 'error',
+        message: `Task ${dep.fromId} depends on itself`,
+        taskIds: [dep.fromId],
+        dependencyIds: [id],
+      });
+      return;
+    }
+
+    if (isAncestor(dep.fromId, dep.toId, taskMap) || isAncestor(dep.toId, dep.fromId, taskMap)) {
+      diagnostics.push({
+        code: 'parent-child',
+        severity: 'error',
+        message: `Dependency ${dep.fromId} → ${dep.toId} links a group to its own child`,
+        taskIds: [dep.fromId, dep.toId],
+        dependencyIds: [id],
+      });
+      return;
+    }
+
+    edges.set(dep.fromId, [...(edges.get(dep.fromId) ?? []), dep.toId]);
+    linkIds.set(`${dep.fromId}\u0000${dep.toId}`, id);
+  });
+
+  findCycles(tasks.map((t) => t.id), edges).forEach((component) => {
+    const members = new Set(component);
+    const dependencyIds: string[] = [];
+
+    component.forEach((fromId) => {
+      (edges.get(fromId) ?? []).forEach((toId) => {
+        if (members.has(toId)) dependencyIds.push(linkIds.get(`${fromId}\u0000${toId}`)!);
+      });
+    });
+
+    diagnostics.push({
+      code: 'cycle',
+      severity: 'error',
+      message: `Dependency cycle between tasks ${component.join(', ')}`,
+      taskIds: component,
+      dependencyIds,
+    });
+  });
+
+  return diagnostics;
+}